@@ -0,0 +1,76 @@
+import type { BuiltinResolver, GameValue } from './logic';
+
+/**
+ * Source of the current time. Pass a fixed clock to make time-based conditions deterministic.
+ */
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Matches the normalized form produced by the condition tokenizer: daysSince(name)
+ */
+const DAYS_SINCE_REGEX = /^daysSince\((.+)\)$/;
+
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})/;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Resolve read-only calendar values for conditions, in local time:
+ * - now.hour, now.minute: 0-23 and 0-59
+ * - now.weekday: lowercase English day name ("monday")
+ * - now.day, now.month, now.year: day of month, 1-12 and the full year
+ * - now.date: today as YYYY-MM-DD
+ * - daysSince(name): whole days between the date stored in name and today
+ * @param lookup Reads the argument of daysSince() (session variables and other built-ins)
+ */
+export function createCalendarResolver(lookup: (name: string) => GameValue | undefined, clock: Clock = systemClock): BuiltinResolver {
+    return {
+        handles: name => name.startsWith('now.') || DAYS_SINCE_REGEX.test(name),
+        resolve: (name): GameValue | undefined => {
+            const now = clock();
+            const match = DAYS_SINCE_REGEX.exec(name);
+            if (match) {
+                const since = parseDate(lookup(match[1]));
+                return since ? Math.round((startOfDay(now) - startOfDay(since)) / MS_PER_DAY) : undefined;
+            }
+            switch (name) {
+                case 'now.hour': return now.getHours();
+                case 'now.minute': return now.getMinutes();
+                case 'now.weekday': return WEEKDAYS[now.getDay()];
+                case 'now.day': return now.getDate();
+                case 'now.month': return now.getMonth() + 1;
+                case 'now.year': return now.getFullYear();
+                case 'now.date': return formatDate(now);
+                default: return undefined;
+            }
+        }
+    };
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time.
+ */
+export function formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Read a YYYY-MM-DD date (optionally followed by a time, which is ignored) as a local date.
+ */
+function parseDate(value: GameValue | undefined): Date | null {
+    if (typeof value !== 'string') return null;
+    const match = DATE_REGEX.exec(value.trim());
+    if (!match) return null;
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return isNaN(date.getTime()) ? null : date;
+}
+
+function startOfDay(date: Date): number {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
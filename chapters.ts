@@ -0,0 +1,114 @@
+import type { CanvasData, CanvasNode } from './types';
+
+/**
+ * Chapters are the canvas's top-level groups, in reading order (rows top to bottom, left to right).
+ * A card belongs to the chapter whose area contains the card's center.
+ */
+export interface ChapterInfo {
+    group: CanvasNode;
+    /** Group label, or "Chapter N" for unlabeled groups */
+    title: string;
+    /** 1-based position among the canvas's chapters */
+    number: number;
+    total: number;
+}
+
+/**
+ * Top-level groups of a canvas in reading order. Groups nested in another group are not chapters.
+ */
+export function getChapters(data: CanvasData): CanvasNode[] {
+    const groups = data.nodes.filter(node => node.type === 'group');
+    const topLevel = groups.filter(group => !groups.some(other =>
+        other !== group && containsRect(other, group) && !containsRect(group, other)));
+    return sortInReadingOrder(topLevel);
+}
+
+/**
+ * Chapter containing a card, or null when the card is outside every top-level group.
+ */
+export function getChapterForNode(data: CanvasData, node: CanvasNode): ChapterInfo | null {
+    const chapters = getChapters(data);
+    const index = chapters.findIndex(group => group === node || containsCenter(group, node));
+    if (index === -1) return null;
+    return {
+        group: chapters[index],
+        title: chapters[index].label?.trim() || `Chapter ${index + 1}`,
+        number: index + 1,
+        total: chapters.length
+    };
+}
+
+/**
+ * Chapter "Skip to next chapter" goes to: the one after the card's chapter, or for a card outside every chapter
+ * the first chapter after it in reading order (so a card before the first chapter leads to it). Null when there is none.
+ */
+export function getNextChapter(data: CanvasData, node: CanvasNode): CanvasNode | null {
+    const chapters = getChapters(data);
+    const current = getChapterForNode(data, node);
+    if (current) return chapters[current.number] ?? null;
+    const ordered = sortInReadingOrder([...chapters, node]);
+    return ordered.slice(ordered.indexOf(node) + 1).find(other => chapters.includes(other)) ?? null;
+}
+
+/**
+ * Card a chapter starts at: the first card (in reading order) reached by a connection from outside the group,
+ * else the first card with no connection from inside it, else the first card.
+ * @param isPlayable Filters out cards the player never stops on (such as the start marker)
+ */
+export function getChapterEntryNode(data: CanvasData, group: CanvasNode, isPlayable: (node: CanvasNode) => boolean): CanvasNode | null {
+    const inside = sortInReadingOrder(data.nodes.filter(node =>
+        node.type !== 'group' && isPlayable(node) && containsCenter(group, node)));
+    if (inside.length === 0) return null;
+
+    const insideIds = new Set(inside.map(node => node.id));
+    const incoming = (node: CanvasNode) => data.edges.filter(edge => edge.toNode === node.id);
+
+    return inside.find(node => incoming(node).some(edge => !insideIds.has(edge.fromNode)))
+        ?? inside.find(node => !incoming(node).some(edge => insideIds.has(edge.fromNode)))
+        ?? inside[0];
+}
+
+export function formatChapterProgress(chapter: ChapterInfo): string {
+    return `Chapter ${chapter.number} of ${chapter.total}`;
+}
+
+/**
+ * Chapter heading shown above the card in the Reader, the HUD and the mini view.
+ */
+export function renderChapterHeading(parentEl: HTMLElement, chapter: ChapterInfo): HTMLElement {
+    const headingEl = parentEl.createDiv({ cls: 'canvas-player-chapter' });
+    headingEl.createDiv({ cls: 'canvas-player-chapter-title', text: chapter.title });
+    headingEl.createDiv({ cls: 'canvas-player-chapter-progress', text: formatChapterProgress(chapter) });
+    return headingEl;
+}
+
+function containsCenter(group: CanvasNode, node: CanvasNode): boolean {
+    const cx = node.x + node.width / 2;
+    const cy = node.y + node.height / 2;
+    return cx >= group.x && cx <= group.x + group.width && cy >= group.y && cy <= group.y + group.height;
+}
+
+function containsRect(outer: CanvasNode, inner: CanvasNode): boolean {
+    return inner.x >= outer.x && inner.y >= outer.y &&
+        inner.x + inner.width <= outer.x + outer.width &&
+        inner.y + inner.height <= outer.y + outer.height;
+}
+
+/**
+ * Sort into rows (nodes that overlap vertically with the row share it), then left to right within a row.
+ */
+function sortInReadingOrder(nodes: CanvasNode[]): CanvasNode[] {
+    const byTop = [...nodes].sort((a, b) => a.y - b.y || a.x - b.x);
+    const rows: CanvasNode[][] = [];
+    let rowBottom = -Infinity;
+    for (const node of byTop) {
+        if (rows.length === 0 || node.y >= rowBottom) {
+            rows.push([node]);
+            rowBottom = node.y + node.height;
+        } else {
+            rows[rows.length - 1].push(node);
+            rowBottom = Math.max(rowBottom, node.y + node.height);
+        }
+    }
+    return rows.flatMap(row => row.sort((a, b) => a.x - b.x));
+}
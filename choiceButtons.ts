@@ -0,0 +1,41 @@
+import { setIcon } from 'obsidian';
+import { ExpressionError, formatExpressionError } from './logic';
+import { SharedCountdownTimer, formatRemainingTime } from './sharedCountdownTimer';
+import { MAX_CHOICE_SHORTCUTS } from './playerHotkeys';
+
+/**
+ * Mark a choice button whose {if:} condition failed to parse.
+ * The choice is shown disabled (a broken condition never counts as true), and the badge
+ * explains why so the author can fix the label.
+ */
+export function addConditionWarningBadge(buttonEl: HTMLElement, errors: ExpressionError[]): void {
+    if (errors.length === 0) return;
+
+    const message = errors.map(formatExpressionError).join('\n');
+    buttonEl.addClass('canvas-player-choice-has-warning');
+    const badge = buttonEl.createSpan({ cls: 'canvas-player-choice-warning' });
+    setIcon(badge, 'alert-triangle');
+    badge.setAttribute('aria-label', message);
+    buttonEl.setAttribute('title', message);
+}
+
+/**
+ * Show the number key that takes a choice (1-9) in front of its label.
+ */
+export function addChoiceShortcutHint(buttonEl: HTMLElement, index: number): void {
+    if (index >= MAX_CHOICE_SHORTCUTS) return;
+    const hint = createEl('kbd', { cls: 'canvas-player-choice-shortcut', text: String(index + 1) });
+    buttonEl.prepend(hint);
+}
+
+/**
+ * Show the {timeout:} countdown on the {default} choice (the plugin takes the choice when time runs out).
+ * @returns Unsubscribe function
+ */
+export function attachDefaultChoiceCountdown(choiceEl: HTMLElement, timer: SharedCountdownTimer): () => void {
+    const countdownEl = choiceEl.createSpan({ cls: 'canvas-player-choice-countdown' });
+    countdownEl.setText(formatRemainingTime(Math.max(0, timer.getRemainingMs())));
+    return timer.subscribe(remainingMs => {
+        countdownEl.setText(formatRemainingTime(Math.max(0, remainingMs)));
+    });
+}
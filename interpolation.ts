@@ -0,0 +1,33 @@
+import type { GameState, GameValue } from './logic';
+
+/**
+ * Matches {{varName}} and {{varName|default}} placeholders (dotted names such as {{global.xp}} included).
+ */
+const PLACEHOLDER_REGEX = /\{\{\s*([a-zA-Z0-9_]+(?:\.[a-zA-Z0-9_-]+)*)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Check whether text contains any {{var}} placeholders.
+ */
+export function hasPlaceholders(text: string): boolean {
+    PLACEHOLDER_REGEX.lastIndex = 0;
+    return PLACEHOLDER_REGEX.test(text);
+}
+
+/**
+ * Replace {{varName}} placeholders with values from state.
+ * Unset variables use the fallback after the pipe ({{name|traveller}}), or an empty string.
+ */
+export function interpolateVariables(text: string, state: GameState): string {
+    return text.replace(PLACEHOLDER_REGEX, (_match, variable: string, fallback?: string) => {
+        const value = state[variable];
+        if (value === undefined) {
+            return fallback !== undefined ? fallback.trim() : '';
+        }
+        return formatValue(value);
+    });
+}
+
+function formatValue(value: GameValue): string {
+    if (Array.isArray(value)) return value.join(', ');
+    return String(value);
+}
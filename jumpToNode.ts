@@ -0,0 +1,84 @@
+import { App, ButtonComponent, FuzzySuggestModal, Modal } from 'obsidian';
+import type { CanvasNode } from './types';
+import { getNodeTitle } from './transcript';
+
+/**
+ * Palette for jumping the active session to any card of the current canvas.
+ * Fuzzy search covers a text card's first line, a file card's path and a group's label
+ * (picking a group jumps to the card its chapter starts at).
+ */
+export class JumpToNodeModal extends FuzzySuggestModal<CanvasNode> {
+    private nodes: CanvasNode[];
+    private onChoose: (node: CanvasNode) => void;
+
+    constructor(app: App, nodes: CanvasNode[], onChoose: (node: CanvasNode) => void) {
+        super(app);
+        this.nodes = nodes;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Jump to card...');
+    }
+
+    getItems(): CanvasNode[] {
+        return this.nodes;
+    }
+
+    getItemText(node: CanvasNode): string {
+        return getNodeSearchText(node);
+    }
+
+    onChooseItem(node: CanvasNode): void {
+        this.onChoose(node);
+    }
+}
+
+/**
+ * Asks before a jump that skips connections, and with them their conditions.
+ */
+export class ConfirmJumpModal extends Modal {
+    private title: string;
+    private onConfirm: () => void;
+
+    constructor(app: App, title: string, onConfirm: () => void) {
+        super(app);
+        this.title = title;
+        this.onConfirm = onConfirm;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Jump past conditions?' });
+        contentEl.createEl('p', {
+            text: `"${this.title}" is not one of the current choices. Jumping skips the connections in between, including their conditions and variable changes.`
+        });
+
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Cancel')
+            .onClick(() => this.close());
+
+        new ButtonComponent(buttonContainer)
+            .setButtonText('Jump')
+            .setCta()
+            .onClick(() => {
+                this.close();
+                this.onConfirm();
+            });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+/**
+ * Text a card is found by in the jump palette.
+ */
+export function getNodeSearchText(node: CanvasNode): string {
+    if (node.type === 'file' && node.file) return node.file;
+    if (node.type === 'group') return `${node.label || 'Untitled group'} (group)`;
+    return getNodeTitle(node);
+}
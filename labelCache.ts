@@ -0,0 +1,72 @@
+import { LogicEngine, ParsedLabel } from './logic';
+import type { CanvasData, CanvasEdge } from './types';
+
+/**
+ * Label text used for edges without a label.
+ */
+export const DEFAULT_CHOICE_LABEL = 'Next';
+
+interface CompiledLabel {
+    /** Raw label the entry was compiled from (guards against stale entries) */
+    source: string;
+    parsed: ParsedLabel;
+}
+
+/**
+ * Cache of parsed edge labels, one map per canvas file keyed by edge id.
+ * Parsing a label tokenizes and builds the condition AST, so caching saves
+ * re-parsing every outgoing edge on each render of the player.
+ * Entries are keyed by edge id and checked against the raw label, so an edited label is
+ * recompiled on its next use and other edits to the canvas (such as timing data the
+ * plugin writes every step) keep the cache. Files are dropped when deleted or renamed.
+ */
+export class CompiledLabelCache {
+    private byFile: Map<string, Map<string, CompiledLabel>> = new Map();
+
+    /**
+     * Get the parsed label for an edge, compiling it on first use.
+     */
+    get(filePath: string, edge: CanvasEdge): ParsedLabel {
+        const source = edge.label || DEFAULT_CHOICE_LABEL;
+        let fileCache = this.byFile.get(filePath);
+        if (!fileCache) {
+            fileCache = new Map();
+            this.byFile.set(filePath, fileCache);
+        }
+
+        const cached = fileCache.get(edge.id);
+        if (cached && cached.source === source) {
+            return cached.parsed;
+        }
+
+        const parsed = LogicEngine.parseLabel(source);
+        fileCache.set(edge.id, { source, parsed });
+        return parsed;
+    }
+
+    /**
+     * Get parsed labels for every edge in a canvas, dropping entries for edges that no longer exist.
+     */
+    getAll(filePath: string, data: CanvasData): ParsedLabel[] {
+        const labels = data.edges.map(edge => this.get(filePath, edge));
+        const fileCache = this.byFile.get(filePath);
+        if (fileCache && fileCache.size > data.edges.length) {
+            const edgeIds = new Set(data.edges.map(edge => edge.id));
+            for (const edgeId of fileCache.keys()) {
+                if (!edgeIds.has(edgeId)) fileCache.delete(edgeId);
+            }
+        }
+        return labels;
+    }
+
+    /**
+     * Drop all entries for a canvas file (e.g. after it was deleted or renamed).
+     */
+    invalidate(filePath: string): void {
+        this.byFile.delete(filePath);
+    }
+
+    clear(): void {
+        this.byFile.clear();
+    }
+}
@@ -1,12 +1,97 @@
+/**
+ * A variable value. string[] is a list variable: a set of unique items changed with {add:} and {remove:}.
+ * Lists are never changed in place, so copies of a state can share them.
+ */
+export type GameValue = boolean | number | string | string[];
+
 export interface GameState {
-    [key: string]: boolean;
+    [key: string]: GameValue;
+}
+
+export type VariableType = 'boolean' | 'number' | 'string' | 'list';
+
+export type SetOperator = '=' | '+=' | '-=' | 'add' | 'remove';
+
+/**
+ * Looks up read-only built-in values (e.g. visit counters or note properties) by name.
+ * Names a resolver handles are never read from state or prompted for.
+ */
+export interface BuiltinResolver {
+    /** Whether the name belongs to this resolver's namespace */
+    handles(name: string): boolean;
+    /** Current value; undefined when it does not exist (e.g. a missing frontmatter key) */
+    resolve(name: string): GameValue | undefined;
+}
+
+/**
+ * Combine several resolvers; the first one that handles a name wins.
+ */
+export function combineResolvers(...resolvers: BuiltinResolver[]): BuiltinResolver {
+    const find = (name: string) => resolvers.find(resolver => resolver.handles(name));
+    return {
+        handles: name => find(name) !== undefined,
+        resolve: name => find(name)?.resolve(name)
+    };
+}
+
+export interface SetOperation {
+    variable: string;
+    op: SetOperator;
+    /** Literal value (unused when source is set) */
+    value: GameValue;
+    /** Built-in or variable read when the set runs ({set:last=now.date}, {set:gold+=$bonus} reads bonus) */
+    source?: string;
+}
+
+/**
+ * A frontmatter property written when an edge is taken ({prop:...}).
+ */
+export interface PropertyWrite {
+    /** Note path or link text; null for the note linked by the node being left */
+    path: string | null;
+    key: string;
+    value: GameValue;
+}
+
+/**
+ * Copies one variable between a parent canvas and a nested canvas ({pass:} / {return:}).
+ */
+export interface VariableMapping {
+    /** Variable written in the receiving canvas */
+    target: string;
+    /** Variable read from the sending canvas */
+    source: string;
 }
 
 export interface ParsedLabel {
     text: string;
-    sets: { variable: string; value: boolean }[];
+    sets: SetOperation[];
     expression: string | null;
     dependencies: string[];
+    /** Inferred type for each dependency (numbers and strings are detected from comparisons) */
+    dependencyTypes: Record<string, VariableType>;
+    /** String literals each variable is assigned or compared against in this label */
+    stringValues: Record<string, string[]>;
+    /** Combined AST of all {if:} conditions (null when there are none or one failed to parse) */
+    condition: ExpressionNode | null;
+    /** Parse errors from {if:} conditions and {set:} values; a label with errors is never evaluated */
+    errors: ExpressionError[];
+    /** Weight from {chance:N} for random branching (null when untagged) */
+    chance: number | null;
+    /** {once}: the edge is hidden after it has been taken in the session */
+    once: boolean;
+    /** {pass:...}: parent variables copied into a nested canvas's fresh state */
+    pass: VariableMapping[];
+    /** {return:...}: nested canvas variables copied back into the parent on return */
+    returns: VariableMapping[];
+    /** {on-exit:name}: followed automatically when a nested canvas ends at a node tagged {exit:name} */
+    exitName: string | null;
+    /** {prop:...}: frontmatter properties written when the edge is taken */
+    props: PropertyWrite[];
+    /** {auto}: taken immediately when valid, without showing choices */
+    auto: boolean;
+    /** {default}: taken when the node's {timeout:} runs out */
+    isDefault: boolean;
 }
 
 export class LogicEngine {
@@ -14,62 +99,223 @@ export class LogicEngine {
      * Parses a label string to extract {set:...} and {if:...} tags.
      * Supported syntax:
      * - {set:var=true} or {set:var=false}
+     * - {set:var=5}, {set:var+=5} or {set:var-=1} for numeric variables
+     * - {set:var="text"} for string variables
+     * - {set:var=now.date} or {set:var=daysSince(last)} to copy a built-in, {set:var=$other} to copy another variable;
+     *   any other unquoted value is reported in errors
+     * - {set:global.var=...} / {set:vault.var=...} for variables shared across nested canvases / the vault
+     * - {add:list=item} / {remove:list=item} for list variables (item is a plain word or "quoted text")
      * - {if:expression} where expression can use & (AND), | (OR), ! (NOT), and parens ()
      *   Example: {if:!A&(B|C)}
+     *   Comparisons >, >=, <, <=, == and != work on numbers: {if:gold>=10 & !cursed}
+     *   Strings are compared with == and !=: {if:class=="mage" | class=="cleric"}
+     *   Lists are checked with has and count(): {if:inventory has key & count(inventory)>=3}
      *   Also supports legacy: {if:var=true}, {if:var=false} inside the expression.
+     *   Built-ins such as visits.nodeId, turns, self.status or note("Specs/API.md").status
+     *   are read through a BuiltinResolver.
+     * - {chance:30} to make the edge a weighted random branch
+     * - {once} to hide the edge after it has been taken
+     * - {auto} to take the edge immediately when its condition passes (router nodes)
+     * - {default} to take the edge when the node's {timeout:} runs out
+     * - {pass:a,b} / {return:c} on an edge into a nested canvas to send variables in and get results back.
+     *   Use target=source to rename: {pass:level=difficulty} sets the child's level from the parent's difficulty.
+     * - {on-exit:name} on an edge leaving a nested canvas node, taken when the child ends with {exit:name}
+     * - {prop:status=done} or {prop:"Specs/API.md".reviewed=true} to write note frontmatter
      */
     static parseLabel(label: string): ParsedLabel {
-        const sets: { variable: string; value: boolean }[] = [];
+        const sets: SetOperation[] = [];
         const expressionParts: string[] = [];
         let text = label;
 
         // Regex for {set:name=value}
-        // Matches {set:variableName=true} or {set:variableName=false}
-        const setRegex = /\{set:([a-zA-Z0-9_]+)=(true|false)\}/g;
+        // Matches {set:variableName=true}, {set:variableName=false}, {set:gold+=5}, {set:hp-=1}, {set:class="mage"}
+        // and names read when the set runs: {set:last=now.date}, {set:gold+=$bonus}
+        // Runs on the untouched label so error columns point at the right place
+        const setRegex = /\{set:((?:global\.|vault\.)?[a-zA-Z0-9_]+)\s*(\+=|-=|=)\s*("[^"]*"|[^}]*?)\s*\}/g;
+        const errors: ExpressionError[] = [];
         let match;
         while ((match = setRegex.exec(text)) !== null) {
-            sets.push({ variable: match[1], value: match[2] === 'true' });
+            const op = match[2] as SetOperator;
+            const raw = match[3];
+            if (!/^(true|false|-?\d+(?:\.\d+)?|"[^"]*")$/.test(raw)) {
+                const source = parseSetSource(raw);
+                if (source === null) {
+                    const column = match.index + (raw ? match[0].lastIndexOf(raw) : match[0].length - 1) + 1;
+                    const message = raw
+                        ? `unknown value "${raw}" in {set:} (quote text as "${raw}", or write $${raw} to copy a variable)`
+                        : 'missing value in {set:}';
+                    errors.push({ message, column, label });
+                    continue;
+                }
+                sets.push({ variable: match[1], op, value: false, source });
+                continue;
+            }
+            const value = parseLiteral(raw);
+            // Increments only make sense for numbers
+            if (op !== '=' && typeof value !== 'number') continue;
+            sets.push({ variable: match[1], op, value });
         }
         text = text.replace(setRegex, '').trim();
 
+        // Regex for {add:list=item} and {remove:list=item}
+        const listRegex = /\{(add|remove):((?:global\.|vault\.)?[a-zA-Z0-9_]+)\s*=\s*("[^"]*"|[^}]*)\}/g;
+        while ((match = listRegex.exec(text)) !== null) {
+            const raw = match[3].trim();
+            const item = raw.startsWith('"') ? raw.slice(1, -1) : raw;
+            if (item) {
+                sets.push({ variable: match[2], op: match[1] as SetOperator, value: item });
+            }
+        }
+        text = text.replace(listRegex, '').trim();
+
         // Regex for {if:expression}
         // Capture everything inside {if:...}
-        const ifRegex = /\{if:([^}]+)\}/g;
-        while ((match = ifRegex.exec(text)) !== null) {
+        // Matched against the original label so error columns point at the right place
+        const ifRegex = /\{if:([^}]*)\}/g;
+        let condition: ExpressionNode | null = null;
+        while ((match = ifRegex.exec(label)) !== null) {
             expressionParts.push(`(${match[1]})`);
+            const result = ExpressionParser.parse(match[1], match.index + '{if:'.length, label);
+            errors.push(...result.errors);
+            if (result.ast) {
+                condition = condition ? { kind: 'and', left: condition, right: result.ast } : result.ast;
+            }
         }
         text = text.replace(ifRegex, '').trim();
 
+        // Regex for {chance:N} (an optional % sign is allowed)
+        const chanceRegex = /\{chance:\s*(\d+(?:\.\d+)?)\s*%?\}/;
+        const chanceMatch = chanceRegex.exec(text);
+        const chance = chanceMatch ? parseFloat(chanceMatch[1]) : null;
+        text = text.replace(chanceRegex, '').trim();
+
+        const onceRegex = /\{once\}/g;
+        const once = onceRegex.test(text);
+        text = text.replace(onceRegex, '').trim();
+
+        const autoRegex = /\{auto\}/g;
+        const auto = autoRegex.test(text);
+        text = text.replace(autoRegex, '').trim();
+
+        const defaultRegex = /\{default\}/g;
+        const isDefault = defaultRegex.test(text);
+        text = text.replace(defaultRegex, '').trim();
+
+        // Regex for {pass:a,b} and {return:a,b}
+        const passRegex = /\{pass:([^}]*)\}/g;
+        const returnRegex = /\{return:([^}]*)\}/g;
+        const pass: VariableMapping[] = [];
+        const returns: VariableMapping[] = [];
+        while ((match = passRegex.exec(text)) !== null) {
+            pass.push(...parseMappings(match[1]));
+        }
+        while ((match = returnRegex.exec(text)) !== null) {
+            returns.push(...parseMappings(match[1]));
+        }
+        text = text.replace(passRegex, '').replace(returnRegex, '').trim();
+
+        // Regex for {on-exit:name}
+        const exitRegex = /\{on-exit:\s*([a-zA-Z0-9_-]+)\s*\}/;
+        const exitMatch = exitRegex.exec(text);
+        const exitName = exitMatch ? exitMatch[1] : null;
+        text = text.replace(exitRegex, '').trim();
+
+        // Regex for {prop:key=value} and {prop:"path".key=value}
+        // Unquoted values other than true/false/numbers are plain text: {prop:status=done}
+        const propRegex = /\{prop:\s*(?:"([^"]*)"\.)?([a-zA-Z0-9_-]+)\s*=\s*("[^"]*"|[^}]*)\}/g;
+        const props: PropertyWrite[] = [];
+        while ((match = propRegex.exec(text)) !== null) {
+            const raw = match[3].trim();
+            const value = /^(true|false|-?\d+(?:\.\d+)?|"[^"]*")$/.test(raw) ? parseLiteral(raw) : raw;
+            props.push({ path: match[1] ?? null, key: match[2], value });
+        }
+        text = text.replace(propRegex, '').trim();
+
+        if (errors.length > 0) {
+            condition = null;
+        }
+
         const expression = expressionParts.length > 0 ? expressionParts.join(' & ') : null;
-        const dependencies = expression ? ExpressionParser.extractVariables(expression) : [];
+        const info = condition ? ExpressionParser.extractVariableInfo(condition) : { types: {}, stringValues: {} };
+        const dependencyTypes = info.types;
+        const dependencies = Object.keys(dependencyTypes);
+
+        const stringValues: Record<string, string[]> = info.stringValues;
+        for (const setOp of sets) {
+            if (setOp.source === undefined && typeof setOp.value === 'string') {
+                addUnique(stringValues, setOp.variable, setOp.value);
+            }
+        }
 
-        return { text, sets, expression, dependencies };
+        return { text, sets, expression, dependencies, dependencyTypes, stringValues, condition, errors, chance, once, pass, returns, exitName, props, auto, isDefault };
     }
 
     /**
      * Checks if the boolean expression in the parsed label evaluates to true.
      * Variables not in state are assumed false (undefined -> false).
+     * Labels whose condition failed to parse never pass; callers surface them via hasErrors().
+     * Names provided by builtins take precedence over state.
+     */
+    static checkConditions(parsed: ParsedLabel, state: GameState, builtins?: BuiltinResolver): boolean {
+        if (parsed.errors.length > 0) return false;
+        if (!parsed.condition) return true;
+        const lookup = (name: string) => builtins?.handles(name) ? builtins.resolve(name) : state[name];
+        return ExpressionParser.evaluate(parsed.condition, lookup);
+    }
+
+    /**
+     * Whether any {if:} condition in the label failed to parse.
      */
-    static checkConditions(parsed: ParsedLabel, state: GameState): boolean {
-        if (!parsed.expression) return true;
-        return ExpressionParser.evaluate(parsed.expression, state);
+    static hasErrors(parsed: ParsedLabel): boolean {
+        return parsed.errors.length > 0;
     }
 
     /**
      * Updates the state based on the sets in the parsed label.
+     * Increments on a missing variable start from 0.
      */
-    static updateState(parsed: ParsedLabel, state: GameState): void {
-        for (const setOp of parsed.sets) {
-            state[setOp.variable] = setOp.value;
+    static updateState(parsed: ParsedLabel, state: GameState, builtins?: BuiltinResolver): void {
+        this.applySets(parsed.sets, state, builtins);
+    }
+
+    /**
+     * Applies a list of set operations to the state (shared by edge labels and node directives).
+     * Sets that read a name (built-ins first, then state) are skipped while the name has no value.
+     */
+    static applySets(sets: SetOperation[], state: GameState, builtins?: BuiltinResolver): void {
+        for (const setOp of sets) {
+            let value = setOp.value;
+            if (setOp.source !== undefined) {
+                const resolved = builtins?.handles(setOp.source) ? builtins.resolve(setOp.source) : state[setOp.source];
+                if (resolved === undefined) continue;
+                value = resolved;
+            }
+            if (setOp.op === '=') {
+                state[setOp.variable] = value;
+                continue;
+            }
+            if (setOp.op === 'add' || setOp.op === 'remove') {
+                const list = toList(state[setOp.variable]);
+                const item = String(value);
+                state[setOp.variable] = setOp.op === 'add'
+                    ? (list.includes(item) ? list : [...list, item])
+                    : list.filter(existing => existing !== item);
+                continue;
+            }
+            const current = toNumber(state[setOp.variable]);
+            const delta = toNumber(value);
+            state[setOp.variable] = setOp.op === '+=' ? current + delta : current - delta;
         }
     }
 
     /**
      * Returns a list of variable names referenced in conditions that are not defined in the state.
+     * Built-in names are never reported as missing.
      */
-    static getMissingVariables(parsed: ParsedLabel, state: GameState): string[] {
+    static getMissingVariables(parsed: ParsedLabel, state: GameState, builtins?: BuiltinResolver): string[] {
         const missing: string[] = [];
         for (const variable of parsed.dependencies) {
+            if (builtins?.handles(variable)) continue;
             if (state[variable] === undefined) {
                 if (!missing.includes(variable)) {
                     missing.push(variable);
@@ -78,126 +324,466 @@ export class LogicEngine {
         }
         return missing;
     }
+
+    /**
+     * Returns the default value used when a variable of the given type is first prompted.
+     */
+    static defaultValueFor(type: VariableType): GameValue {
+        if (type === 'number') return 0;
+        if (type === 'list') return [];
+        if (type === 'string') return '';
+        return false;
+    }
+}
+
+/**
+ * Copies a state object loaded from JSON, keeping only supported value types.
+ * Guards resume/sync data against hand-edited or corrupted files.
+ */
+export function sanitizeGameState(raw: unknown): GameState {
+    const state: GameState = {};
+    if (!raw || typeof raw !== 'object') return state;
+    for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+        if (typeof value === 'boolean') {
+            state[key] = value;
+        } else if (typeof value === 'number' && isFinite(value)) {
+            state[key] = value;
+        } else if (typeof value === 'string') {
+            state[key] = value;
+        } else if (Array.isArray(value)) {
+            // List items are unique strings
+            state[key] = Array.from(new Set(value.filter((item): item is string => typeof item === 'string')));
+        }
+    }
+    return state;
+}
+
+function parseLiteral(raw: string): GameValue {
+    if (raw === 'true') return true;
+    if (raw === 'false') return false;
+    if (raw.startsWith('"')) return raw.slice(1, -1);
+    return parseFloat(raw);
+}
+
+/**
+ * Built-ins a {set:} may copy: now.*, turns, visits.*, visited.*, self.*, note("path").* and daysSince(...).
+ */
+const SET_BUILTIN_REGEX = /^(?:turns|now\.[a-zA-Z]+|(?:visits|visited|self)(?:\.[a-zA-Z0-9_-]+)+|note\("[^"]*"\)(?:\.[a-zA-Z0-9_-]+)+)$/;
+const SET_DAYS_SINCE_REGEX = /^daysSince\(\s*((?:[^()]|\([^()]*\))+?)\s*\)$/;
+const SET_VARIABLE_REGEX = /^\$((?:global\.|vault\.)?[a-zA-Z_][a-zA-Z0-9_]*)$/;
+
+/**
+ * Returns the name a {set:} value reads when it runs, or null when the value is neither a built-in nor a $variable.
+ */
+function parseSetSource(raw: string): string | null {
+    if (SET_BUILTIN_REGEX.test(raw)) return raw;
+    const daysSince = SET_DAYS_SINCE_REGEX.exec(raw);
+    if (daysSince) return `daysSince(${daysSince[1]})`;
+    const variable = SET_VARIABLE_REGEX.exec(raw);
+    return variable ? variable[1] : null;
+}
+
+/**
+ * Parses a comma-separated list of `name` or `target=source` entries; invalid entries are ignored.
+ */
+function parseMappings(list: string): VariableMapping[] {
+    const mappings: VariableMapping[] = [];
+    for (const entry of list.split(',')) {
+        const match = /^\s*([a-zA-Z0-9_]+)\s*(?:=\s*([a-zA-Z0-9_]+)\s*)?$/.exec(entry);
+        if (match) {
+            mappings.push({ target: match[1], source: match[2] ?? match[1] });
+        }
+    }
+    return mappings;
+}
+
+function addUnique(map: Record<string, string[]>, key: string, value: string): void {
+    const values = map[key] ?? (map[key] = []);
+    if (!values.includes(value)) values.push(value);
+}
+
+function toNumber(value: GameValue | undefined): number {
+    if (typeof value === 'number') return value;
+    if (Array.isArray(value)) return value.length;
+    if (typeof value === 'string') {
+        const parsed = parseFloat(value);
+        return isNaN(parsed) ? 0 : parsed;
+    }
+    return value ? 1 : 0;
+}
+
+function isTruthy(value: GameValue | undefined): boolean {
+    // An empty list counts as unset
+    if (Array.isArray(value)) return value.length > 0;
+    return !!value;
+}
+
+/**
+ * Read a value as a list; anything that is not a list reads as empty.
+ */
+function toList(value: GameValue | undefined): string[] {
+    return Array.isArray(value) ? value : [];
+}
+
+export type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=' | 'has';
+
+/**
+ * Parsed {if:} condition tree.
+ */
+export type ExpressionNode =
+    | { kind: 'literal'; value: GameValue }
+    | { kind: 'variable'; name: string }
+    | { kind: 'not'; operand: ExpressionNode }
+    | { kind: 'count'; operand: ExpressionNode }
+    | { kind: 'and' | 'or'; left: ExpressionNode; right: ExpressionNode }
+    | { kind: 'compare'; op: ComparisonOperator; left: ExpressionNode; right: ExpressionNode };
+
+/**
+ * A problem found while parsing an {if:} condition.
+ */
+export interface ExpressionError {
+    message: string;
+    /** 1-based column in the original label */
+    column: number;
+    /** The full edge label the condition came from */
+    label: string;
+}
+
+/**
+ * Format a parse error for display in tooltips and notices.
+ */
+export function formatExpressionError(error: ExpressionError): string {
+    return `Label error at column ${error.column}: ${error.message} in "${error.label}"`;
+}
+
+type TokenType = '&' | '|' | '!' | '(' | ')' | 'OP' | 'NUMBER' | 'STRING' | 'BOOLEAN' | 'IDENTIFIER' | 'EOF';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    /** 0-based offset within the expression source */
+    pos: number;
+}
+
+const RELATIONAL_OPERATORS = ['>', '>=', '<', '<='];
+
+/**
+ * Thrown internally to abort parsing at the first error.
+ */
+class ExpressionSyntaxError extends Error {
+    constructor(message: string, public pos: number) {
+        super(message);
+    }
 }
 
 class ExpressionParser {
-    static evaluate(expr: string, state: GameState): boolean {
-        const tokens = this.tokenize(expr);
-        return this.parseExpression(tokens, state);
+    /**
+     * Parse one condition into an AST.
+     * @param source The text inside {if:...}
+     * @param offset 0-based position of source within label, used for error columns
+     * @param label The original edge label
+     */
+    static parse(source: string, offset: number, label: string): { ast: ExpressionNode | null; errors: ExpressionError[] } {
+        try {
+            const tokens = this.tokenize(source);
+            const ast = this.parseTokens(tokens);
+            return { ast, errors: [] };
+        } catch (e) {
+            if (e instanceof ExpressionSyntaxError) {
+                return { ast: null, errors: [{ message: e.message, column: offset + e.pos + 1, label }] };
+            }
+            throw e;
+        }
     }
 
-    static extractVariables(expr: string): string[] {
-        const tokens = this.tokenize(expr);
-        const vars = new Set<string>();
-        for (const token of tokens) {
-            if (token.type === 'IDENTIFIER' || token.type === 'IDENTIFIER_FALSE') {
-                vars.add(token.value);
+    static evaluate(node: ExpressionNode, lookup: (name: string) => GameValue | undefined): boolean {
+        return isTruthy(this.evaluateValue(node, lookup));
+    }
+
+    /**
+     * Collects referenced variables and infers the type of each one.
+     * A variable is numeric when it appears in a relational comparison or is compared to a number literal,
+     * and a string when it is compared to a string literal. Variables used with has or count() are lists.
+     * Everything else is treated as a boolean.
+     */
+    static extractVariableInfo(root: ExpressionNode): { types: Record<string, VariableType>; stringValues: Record<string, string[]> } {
+        const types: Record<string, VariableType> = {};
+        const stringValues: Record<string, string[]> = {};
+
+        const visit = (node: ExpressionNode) => {
+            switch (node.kind) {
+                case 'variable':
+                    if (types[node.name] === undefined) types[node.name] = 'boolean';
+                    return;
+                case 'not':
+                    visit(node.operand);
+                    return;
+                case 'count':
+                    visit(node.operand);
+                    if (node.operand.kind === 'variable') types[node.operand.name] = 'list';
+                    return;
+                case 'and':
+                case 'or':
+                    visit(node.left);
+                    visit(node.right);
+                    return;
+                case 'compare':
+                    visit(node.left);
+                    visit(node.right);
+                    if (node.op === 'has') {
+                        if (node.left.kind !== 'variable') return;
+                        types[node.left.name] = 'list';
+                        if (node.right.kind === 'literal' && typeof node.right.value === 'string') {
+                            addUnique(stringValues, node.left.name, node.right.value);
+                        }
+                        return;
+                    }
+                    for (const [side, other] of [[node.left, node.right], [node.right, node.left]]) {
+                        if (side.kind !== 'variable') continue;
+                        if (other.kind === 'literal' && typeof other.value === 'string') {
+                            types[side.name] = 'string';
+                            addUnique(stringValues, side.name, other.value);
+                        } else if (RELATIONAL_OPERATORS.includes(node.op) ||
+                            (other.kind === 'literal' && typeof other.value === 'number')) {
+                            types[side.name] = 'number';
+                        }
+                    }
+                    return;
             }
+        };
+
+        visit(root);
+        return { types, stringValues };
+    }
+
+    private static evaluateValue(node: ExpressionNode, lookup: (name: string) => GameValue | undefined): GameValue | undefined {
+        switch (node.kind) {
+            case 'literal':
+                return node.value;
+            case 'variable':
+                // undefined is treated as false / 0 by the comparison helpers
+                return lookup(node.name);
+            case 'not':
+                return !isTruthy(this.evaluateValue(node.operand, lookup));
+            case 'count':
+                return toList(this.evaluateValue(node.operand, lookup)).length;
+            case 'and':
+                return isTruthy(this.evaluateValue(node.left, lookup)) && isTruthy(this.evaluateValue(node.right, lookup));
+            case 'or':
+                return isTruthy(this.evaluateValue(node.left, lookup)) || isTruthy(this.evaluateValue(node.right, lookup));
+            case 'compare':
+                return compare(this.evaluateValue(node.left, lookup), node.op, this.evaluateValue(node.right, lookup));
         }
-        return Array.from(vars);
     }
 
-    private static tokenize(expr: string) {
-        const tokens: { type: string, value: string }[] = [];
+    private static tokenize(expr: string): Token[] {
+        const tokens: Token[] = [];
         let i = 0;
         while (i < expr.length) {
             const char = expr[i];
-            
+            const rest = expr.substring(i);
+
             if (/\s/.test(char)) {
                 i++;
                 continue;
             }
-            
+
+            // Comparison operators (checked before '!' so that '!=' is not read as NOT)
+            const opMatch = /^(>=|<=|==|!=|>|<|=)/.exec(rest);
+            if (opMatch) {
+                tokens.push({ type: 'OP', value: opMatch[0], pos: i });
+                i += opMatch[0].length;
+                continue;
+            }
+
             if (['&', '|', '!', '(', ')'].includes(char)) {
-                tokens.push({ type: char, value: char });
+                tokens.push({ type: char as TokenType, value: char, pos: i });
                 i++;
                 continue;
             }
-            
-            // Identifier (potentially var=true/false)
-            // Allowed chars: alphanumeric + underscore
-            const identMatch = /^[a-zA-Z0-9_]+(?:=(?:true|false))?/.exec(expr.substring(i));
+
+            // String literal in double or single quotes
+            if (char === '"' || char === "'") {
+                const end = expr.indexOf(char, i + 1);
+                if (end === -1) {
+                    throw new ExpressionSyntaxError('Unterminated string', i);
+                }
+                tokens.push({ type: 'STRING', value: expr.substring(i + 1, end), pos: i });
+                i = end + 1;
+                continue;
+            }
+
+            const numberMatch = /^-?\d+(?:\.\d+)?(?![a-zA-Z_])/.exec(rest);
+            if (numberMatch) {
+                tokens.push({ type: 'NUMBER', value: numberMatch[0], pos: i });
+                i += numberMatch[0].length;
+                continue;
+            }
+
+            // Note property: note("path").key, kept as one identifier with normalized quotes
+            const noteMatch = /^note\(\s*(?:"([^"]*)"|'([^']*)')\s*\)\.([a-zA-Z0-9_-]+)/.exec(rest);
+            if (noteMatch) {
+                const path = noteMatch[1] ?? noteMatch[2];
+                tokens.push({ type: 'IDENTIFIER', value: `note("${path}").${noteMatch[3]}`, pos: i });
+                i += noteMatch[0].length;
+                continue;
+            }
+
+            // Date difference: daysSince(name), kept as one identifier like note properties
+            const daysSinceMatch = /^daysSince\(\s*(note\(\s*(?:"[^"]*"|'[^']*')\s*\)\.[a-zA-Z0-9_-]+|[a-zA-Z0-9_]+(?:\.[a-zA-Z0-9_-]+)*)\s*\)/.exec(rest);
+            if (daysSinceMatch) {
+                const argument = daysSinceMatch[1].replace(/^note\(\s*(?:"([^"]*)"|'([^']*)')\s*\)/, (_m, dq, sq) => `note("${dq ?? sq}")`);
+                tokens.push({ type: 'IDENTIFIER', value: `daysSince(${argument})`, pos: i });
+                i += daysSinceMatch[0].length;
+                continue;
+            }
+
+            // Identifier or boolean literal
+            // Allowed chars: alphanumeric + underscore, with dotted segments for
+            // namespaced names such as visits.nodeId (node ids may contain dashes)
+            const identMatch = /^[a-zA-Z0-9_]+(?:\.[a-zA-Z0-9_-]+)*/.exec(rest);
             if (identMatch) {
                 const raw = identMatch[0];
-                if (raw.endsWith('=true')) {
-                    tokens.push({ type: 'IDENTIFIER', value: raw.replace('=true', '') });
-                } else if (raw.endsWith('=false')) {
-                    tokens.push({ type: 'IDENTIFIER_FALSE', value: raw.replace('=false', '') });
-                } else {
-                    tokens.push({ type: 'IDENTIFIER', value: raw });
-                }
+                // 'has' is the list membership operator: inventory has key
+                const type: TokenType = raw === 'has' ? 'OP' : raw === 'true' || raw === 'false' ? 'BOOLEAN' : 'IDENTIFIER';
+                tokens.push({ type, value: raw, pos: i });
                 i += raw.length;
                 continue;
             }
-            
-            // Skip unknown characters to avoid infinite loops
-            i++;
+
+            throw new ExpressionSyntaxError(`Unexpected character '${char}'`, i);
         }
+        tokens.push({ type: 'EOF', value: '', pos: expr.length });
         return tokens;
     }
 
-    private static parseExpression(tokens: any[], state: GameState): boolean {
+    private static parseTokens(tokens: Token[]): ExpressionNode {
         let pos = 0;
 
+        const peek = () => tokens[pos];
+        const describe = (token: Token) => token.type === 'EOF' ? 'end of condition' : `'${token.value}'`;
+
         // E -> T { | T }
-        function parseE(): boolean {
+        function parseE(): ExpressionNode {
             let left = parseT();
-            while (pos < tokens.length && tokens[pos].type === '|') {
+            while (peek().type === '|') {
                 pos++;
-                const right = parseT();
-                left = left || right;
+                left = { kind: 'or', left, right: parseT() };
             }
             return left;
         }
 
         // T -> F { & F }
-        function parseT(): boolean {
+        function parseT(): ExpressionNode {
             let left = parseF();
-            while (pos < tokens.length && tokens[pos].type === '&') {
+            while (peek().type === '&') {
                 pos++;
-                const right = parseF();
-                left = left && right;
+                left = { kind: 'and', left, right: parseF() };
             }
             return left;
         }
 
-        // F -> !F | (E) | Atom
-        function parseF(): boolean {
-            if (pos >= tokens.length) return true; // Should not happen in valid expr
-
-            const token = tokens[pos];
-            
-            if (token.type === '!') {
+        // F -> !F | C
+        function parseF(): ExpressionNode {
+            if (peek().type === '!') {
                 pos++;
-                return !parseF();
+                return { kind: 'not', operand: parseF() };
             }
-            
-            if (token.type === '(') {
-                pos++;
-                const val = parseE();
-                if (pos < tokens.length && tokens[pos].type === ')') {
-                    pos++;
+            return parseC();
+        }
+
+        // C -> P [ OP P ]
+        function parseC(): ExpressionNode {
+            const left = parseP();
+            if (peek().type === 'OP') {
+                const token = tokens[pos++];
+                // A single '=' is the legacy spelling of '=='
+                const op = (token.value === '=' ? '==' : token.value) as ComparisonOperator;
+                let right = parseP();
+                // The item after has is a plain word, not a variable: inventory has key
+                if (op === 'has' && right.kind === 'variable') {
+                    right = { kind: 'literal', value: right.name };
                 }
-                return val;
+                return { kind: 'compare', op, left, right };
             }
-            
-            if (token.type === 'IDENTIFIER') {
-                pos++;
-                // undefined is false
-                return !!state[token.value];
-            }
-            
-            if (token.type === 'IDENTIFIER_FALSE') {
-                pos++;
-                // var=false means "if var is false"
-                return !state[token.value];
+            return left;
+        }
+
+        // P -> (E) | count(P) | Identifier | Number | String | Boolean
+        function parseP(): ExpressionNode {
+            const token = tokens[pos];
+
+            switch (token.type) {
+                case '(': {
+                    pos++;
+                    const inner = parseE();
+                    if (peek().type !== ')') {
+                        throw new ExpressionSyntaxError(`Expected ')' but found ${describe(peek())}`, peek().pos);
+                    }
+                    pos++;
+                    return inner;
+                }
+                case 'IDENTIFIER':
+                    pos++;
+                    if (token.value === 'count' && peek().type === '(') {
+                        pos++;
+                        const operand = parseP();
+                        if (peek().type !== ')') {
+                            throw new ExpressionSyntaxError(`Expected ')' but found ${describe(peek())}`, peek().pos);
+                        }
+                        pos++;
+                        return { kind: 'count', operand };
+                    }
+                    return { kind: 'variable', name: token.value };
+                case 'NUMBER':
+                    pos++;
+                    return { kind: 'literal', value: parseFloat(token.value) };
+                case 'STRING':
+                    pos++;
+                    return { kind: 'literal', value: token.value };
+                case 'BOOLEAN':
+                    pos++;
+                    return { kind: 'literal', value: token.value === 'true' };
+                default:
+                    throw new ExpressionSyntaxError(`Expected a value but found ${describe(token)}`, token.pos);
             }
-            
-            // Fallback
-            pos++;
-            return false; 
         }
 
-        return parseE();
+        const ast = parseE();
+        if (peek().type !== 'EOF') {
+            throw new ExpressionSyntaxError(`Unexpected ${describe(peek())}`, peek().pos);
+        }
+        return ast;
     }
 }
+
+function compare(left: GameValue | undefined, op: ComparisonOperator, right: GameValue | undefined): boolean {
+    switch (op) {
+        case '>': return toNumber(left) > toNumber(right);
+        case '>=': return toNumber(left) >= toNumber(right);
+        case '<': return toNumber(left) < toNumber(right);
+        case '<=': return toNumber(left) <= toNumber(right);
+        case '!=': return !valuesEqual(left, right);
+        case '==': return valuesEqual(left, right);
+        case 'has': return toList(left).includes(String(right ?? ''));
+    }
+}
+
+function valuesEqual(left: GameValue | undefined, right: GameValue | undefined): boolean {
+    if (typeof left === 'number' && typeof right === 'number') {
+        return left === right;
+    }
+    // Lists compare as comma-separated text, so an empty list equals ""
+    if (Array.isArray(left) || Array.isArray(right)) {
+        return formatList(left) === formatList(right);
+    }
+    if (typeof left === 'string' || typeof right === 'string') {
+        return String(left ?? '') === String(right ?? '');
+    }
+    // Legacy boolean semantics: {if:var=false} matches unset variables
+    return isTruthy(left) === isTruthy(right);
+}
+
+function formatList(value: GameValue | undefined): string {
+    return Array.isArray(value) ? value.join(', ') : String(value ?? '');
+}
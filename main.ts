@@ -1,20 +1,45 @@
 import { App, Modal, Plugin, Notice, MarkdownRenderer, ButtonComponent, PluginSettingTab, Setting, ItemView, Component, TFile, Menu, debounce, WorkspaceLeaf, TAbstractFile } from 'obsidian';
-import { LogicEngine, GameState } from './logic';
-import { CanvasNode, CanvasData, StackFrame } from './types';
+import { LogicEngine, GameState, ParsedLabel, BuiltinResolver, combineResolvers, sanitizeGameState } from './logic';
+import { CanvasNode, CanvasData, CanvasEdge, StackFrame } from './types';
 import { CanvasPlayerSettings, DEFAULT_SETTINGS } from './settings';
 import { extractNodeInfo, transformNode, convertCardToGroup, convertGroupToCard } from './canvasTransforms';
 import { NodeTimerController, TimingData } from './timeboxing';
 import { loadTimingForNode, saveTimingForNode } from './timingStorage';
-import { PluginData, ResumeSession, ResumeStackFrame, PersistedActiveSession, validateResumeSession, restoreStackFromResume } from './resumeStorage';
+import { PluginData, ResumeSession, ResumeStackFrame, PersistedActiveSession, validateResumeSession, restoreStackFromResume, serializeHistory, restoreHistoryFromResume, MAX_PERSISTED_HISTORY_ENTRIES } from './resumeStorage';
 import { resetTimeboxingRecursive } from './timeboxingReset';
 import { SharedCountdownTimer, formatRemainingTime } from './sharedCountdownTimer';
-import { ActiveSession, createActiveSession, cloneActiveSession } from './playerSession';
+import { ActiveSession, createActiveSession, cloneActiveSession, sanitizeChoiceTimeout } from './playerSession';
 import { CanvasPlayerMiniView, CANVAS_PLAYER_MINI_VIEW_TYPE } from './miniPlayerView';
 import { getOrCreateDeviceId } from './deviceId';
 import { updateRobustAverage } from './timingStats';
 import { calculatePoints, getPointsMessage } from './rewardCurve';
 import { EconomyData, DEFAULT_ECONOMY_DATA, calculateBalance, recordEarn } from './economy';
 import { getShopItem } from './shopCatalog';
+import { interpolateVariables, hasPlaceholders } from './interpolation';
+import { addConditionWarningBadge, attachDefaultChoiceCountdown, addChoiceShortcutHint } from './choiceButtons';
+import { PlayerHotkey, MAX_CHOICE_SHORTCUTS, getPlayerHotkey } from './playerHotkeys';
+import { CompiledLabelCache, DEFAULT_CHOICE_LABEL } from './labelCache';
+import { loadNodeDirectives, stripNodeDirectiveTags, parseNodeDirectives, readNodeSource, NodeActionTrigger } from './nodeDirectives';
+import { TaskProgress, countTasks, areTasksComplete, setTaskChecked, setCanvasTaskChecked, attachTaskToggles } from './nodeTasks';
+import { nextRandom, seedFromString, randomSeed, pickWeightedIndex, getBranchWeights } from './random';
+import { collectMissingVariables, collectCanvasStringValues, addVariablePromptSetting } from './variablePrompt';
+import { createNotePropertyResolver, writeNoteProperties } from './noteProperties';
+import { getVariableDeclarations, seedDeclaredVariables, isVariableDeclarationCard } from './variableDeclarations';
+import { applyVaultVariables, extractVaultVariables, VAULT_PREFIX } from './sharedVariables';
+import { Clock, systemClock, createCalendarResolver } from './calendar';
+import { PlaybackEngine, PlaybackChoice, PlaybackSession, HistoryEntry, getTakeableChoices } from './playbackEngine';
+import { createVaultCanvasLoader } from './vaultCanvasLoader';
+import { SessionProgress, cloneSessionProgress, sanitizeSessionProgress, recordVisit } from './visitTracking';
+import { TranscriptStep, TranscriptOutcome, DEFAULT_TRANSCRIPT_TEMPLATE, createTranscriptStep, recordChanges, sanitizeTranscript, renderTranscript, saveTranscriptNote, getTranscriptNoteName, getNodeTitle } from './transcript';
+import { JumpToNodeModal, ConfirmJumpModal } from './jumpToNode';
+import { getChapterForNode, getChapterEntryNode, getNextChapter, renderChapterHeading } from './chapters';
+
+/**
+ * Maximum number of {auto} edges followed in a row before the player stops and reports a loop.
+ */
+const MAX_AUTO_HOPS = 50;
+
+const BROKEN_CHOICE_NOTICE = 'This choice has a broken condition. Fix its label in the canvas to take it.';
 
 export class CanvasPlayerPlugin extends Plugin {
     settings: CanvasPlayerSettings;
@@ -39,11 +64,22 @@ export class CanvasPlayerPlugin extends Plugin {
     activeSession: ActiveSession | null = null;
     activeSessionMode: 'modal' | 'camera' | null = null;
     sharedTimer: SharedCountdownTimer = new SharedCountdownTimer();
+    labelCache: CompiledLabelCache = new CompiledLabelCache(); // Parsed edge labels per canvas file
+    // Navigation rules (choice filtering, state updates, diving and returning) shared by every player UI
+    engine: PlaybackEngine<TFile> = new PlaybackEngine(createVaultCanvasLoader(this.app), {
+        getStartNode: data => this.getStartNode(data),
+        getBuiltins: session => this.getVaultBuiltins(session),
+        labels: this.labelCache
+    });
     activeModal: CanvasPlayerModal | null = null; // Track if modal is open
     cameraModeView: ItemView | null = null; // Track active camera mode view for restore
     statusBarItem: HTMLElement | null = null; // Status bar timer item
     statusBarUnsubscribe: (() => void) | null = null; // Timer subscription for status bar
     cameraModeTimerUnsubscribe: (() => void) | null = null; // Timer subscription for camera mode HUD
+    choiceTimer: SharedCountdownTimer = new SharedCountdownTimer(true); // {timeout:} countdown for the current node; stops at zero
+    private hudChoiceCountdownUnsubscribe: (() => void) | null = null; // {default} button countdown in the camera mode HUD
+    private hudTakeChoice: ((choice: PlaybackChoice) => Promise<void>) | null = null; // The HUD's choice button action, for shortcuts and the {default} timeout
+    private handledChoiceTimeoutKey: string | null = null; // Countdown whose {default} choice was already tried
 
     // Track currently focused node element for efficient blur transitions
     private currentFocusedNodeEl: HTMLElement | null = null;
@@ -51,6 +87,12 @@ export class CanvasPlayerPlugin extends Plugin {
     // Device ID for cross-device session ownership
     private deviceId: string = '';
 
+    // Last known contents of the vault variables file (vault.* scope, stored without prefix)
+    private vaultVariables: GameState = {};
+
+    // Time source for now.* and daysSince() in conditions (replaceable for deterministic testing)
+    clock: Clock = systemClock;
+
     /**
      * Get the device ID (for economy transactions).
      */
@@ -108,6 +150,54 @@ export class CanvasPlayerPlugin extends Plugin {
         }
     }
 
+    /**
+     * Get the file used to store vault-wide (vault.*) variables.
+     */
+    private getVaultVariablesFile(): TFile | null {
+        const file = this.app.vault.getAbstractFileByPath("canvas-player-vault-variables.json");
+        return file instanceof TFile ? file : null;
+    }
+
+    /**
+     * Load vault-wide variables from the vault file.
+     */
+    private async loadVaultVariablesFromVault(): Promise<GameState> {
+        const file = this.getVaultVariablesFile();
+        if (!file) return {};
+        try {
+            const content = await this.app.vault.read(file);
+            return sanitizeGameState(JSON.parse(content));
+        } catch (e) {
+            console.error("Canvas Player: Failed to load vault variables", e);
+            return {};
+        }
+    }
+
+    /**
+     * Write vault.* variables from the session state to the vault file if any changed.
+     * @param deleted Variables to remove from the vault file (prefixed names; others are ignored)
+     */
+    private async persistVaultVariables(state: GameState, deleted: string[] = []): Promise<void> {
+        const current = { ...this.vaultVariables, ...extractVaultVariables(state) };
+        for (const name of deleted) {
+            if (name.startsWith(VAULT_PREFIX)) delete current[name.slice(VAULT_PREFIX.length)];
+        }
+        if (JSON.stringify(current) === JSON.stringify(this.vaultVariables)) return;
+
+        this.vaultVariables = current;
+        const file = this.getVaultVariablesFile();
+        const content = JSON.stringify(current, null, 2);
+        try {
+            if (file) {
+                await this.app.vault.modify(file, content);
+            } else {
+                await this.app.vault.create("canvas-player-vault-variables.json", content);
+            }
+        } catch (e) {
+            console.error("Canvas Player: Failed to save vault variables", e);
+        }
+    }
+
     // Track last applied activeSessionState timestamp to avoid redundant reloads
     private lastAppliedSessionStateTimestamp: number = 0;
 
@@ -162,6 +252,15 @@ export class CanvasPlayerPlugin extends Plugin {
             this.refreshCanvasViewActions();
         }));
 
+        // Drop compiled edge labels when a canvas goes away; edited labels are recompiled by the cache itself
+        const invalidateLabels = (file: TAbstractFile, oldPath?: string) => {
+            if (file instanceof TFile && file.extension === 'canvas') {
+                this.labelCache.invalidate(oldPath ?? file.path);
+            }
+        };
+        this.registerEvent(this.app.vault.on('delete', (file) => invalidateLabels(file)));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => invalidateLabels(file, oldPath)));
+
         this.addCommand({
             id: 'play-canvas-command',
             name: 'Play current canvas (from start)',
@@ -226,12 +325,99 @@ export class CanvasPlayerPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'canvas-player-back',
+            name: 'Player: back',
+            checkCallback: (checking: boolean) => {
+                if (this.activeSession && this.activeSession.history.length > 0) {
+                    if (!checking) void this.navigateBack();
+                    return true;
+                }
+                return false;
+            }
+        });
+
+        this.addCommand({
+            id: 'canvas-player-forward',
+            name: 'Player: forward (redo)',
+            checkCallback: (checking: boolean) => {
+                if (this.activeSession && this.activeSession.future.length > 0) {
+                    if (!checking) void this.navigateForward();
+                    return true;
+                }
+                return false;
+            }
+        });
+
+        // Numbered choices, also bindable as global hotkeys while the player is minimized
+        for (let n = 1; n <= MAX_CHOICE_SHORTCUTS; n++) {
+            this.addCommand({
+                id: `canvas-player-choose-${n}`,
+                name: `Choose option ${n}`,
+                checkCallback: (checking: boolean) => {
+                    if (this.activeSession) {
+                        if (!checking) void this.chooseOption(n - 1);
+                        return true;
+                    }
+                    return false;
+                }
+            });
+        }
+
+        this.addCommand({
+            id: 'canvas-player-choose-default',
+            name: 'Player: take the only or default choice',
+            checkCallback: (checking: boolean) => {
+                if (this.activeSession) {
+                    if (!checking) void this.choosePrimaryOption();
+                    return true;
+                }
+                return false;
+            }
+        });
+
+        this.addCommand({
+            id: 'canvas-player-jump-to-node',
+            name: 'Jump to card...',
+            checkCallback: (checking: boolean) => {
+                if (this.activeSession) {
+                    if (!checking) void this.openJumpToNode();
+                    return true;
+                }
+                return false;
+            }
+        });
+
+        this.addCommand({
+            id: 'canvas-player-next-chapter',
+            name: 'Skip to next chapter',
+            checkCallback: (checking: boolean) => {
+                if (this.activeSession) {
+                    if (!checking) void this.skipToNextChapter();
+                    return true;
+                }
+                return false;
+            }
+        });
+
+        this.addCommand({
+            id: 'canvas-player-save-transcript',
+            name: 'Save transcript of the current run',
+            checkCallback: (checking: boolean) => {
+                if (this.activeSession) {
+                    if (!checking) void this.saveTranscript('in-progress');
+                    return true;
+                }
+                return false;
+            }
+        });
+
         this.addCommand({
             id: 'canvas-player-minimize',
             name: 'Minimize Canvas Player',
             checkCallback: (checking: boolean) => {
-                if (this.activeModal) {
-                    if (!checking) void this.minimizePlayer();
+                if (this.activeSession && !this.isPlayerMinimized()) {
+                    if (!checking) void this.minimizeActivePlayer();
                     return true;
                 }
                 return false;
@@ -252,6 +438,15 @@ export class CanvasPlayerPlugin extends Plugin {
 
         this.addSettingTab(new CanvasPlayerSettingTab(this.app, this));
 
+        // Player hotkeys (1-9, Backspace, Enter, M) for the Reader and the Camera HUD.
+        // Capture phase, so the canvas does not also act on Backspace or Enter.
+        this.registerDomEvent(window, 'keydown', (evt) => this.onPlayerKeydown(evt), true);
+
+        // {timeout:} takes the {default} choice here rather than in a player UI, so it also fires while minimized
+        this.register(this.choiceTimer.subscribe(remainingMs => {
+            if (remainingMs <= 0) void this.takeDefaultChoiceOnTimeout();
+        }));
+
         // Register context menu for canvas nodes
         // Note: canvas:node-menu is not in official types but is available in Obsidian
         this.registerEvent(
@@ -282,6 +477,9 @@ export class CanvasPlayerPlugin extends Plugin {
     onunload() {
         // Clean up shared timer
         this.sharedTimer.abort();
+        this.choiceTimer.abort();
+        this.clearHudChoiceCountdown();
+        this.labelCache.clear();
 
         // Unsubscribe status bar
         if (this.statusBarUnsubscribe) {
@@ -385,7 +583,7 @@ export class CanvasPlayerPlugin extends Plugin {
             // If no start text configured, fall back to old behavior
             const nodeIdsWithIncoming = new Set(data.edges.map(e => e.toNode));
             const firstTextWithoutIncoming = data.nodes.find(
-                n => n.type === 'text' && !nodeIdsWithIncoming.has(n.id)
+                n => n.type === 'text' && !nodeIdsWithIncoming.has(n.id) && !isVariableDeclarationCard(n)
             );
             return firstTextWithoutIncoming || data.nodes[0] || null;
         }
@@ -518,14 +716,25 @@ export class CanvasPlayerPlugin extends Plugin {
             stack: this.activeSession.stack.map(frame => ({
                 filePath: frame.file.path,
                 currentNodeId: frame.currentNode.id,
-                state: { ...frame.state }
+                state: { ...frame.state },
+                pass: frame.pass,
+                returns: frame.returns
             })),
-            historyNodeIds: this.activeSession.history.map(n => n.id),
+            historyNodeIds: this.activeSession.history.slice(-MAX_PERSISTED_HISTORY_ENTRIES).map(entry => entry.node.id),
+            history: serializeHistory(this.activeSession.history),
+            future: serializeHistory(this.activeSession.future),
+            step: this.activeSession.step,
+            stepCount: this.activeSession.stepCount,
             timerStartTimeMs: this.activeSession.timerStartTimeMs ?? now,
             timerDurationMs: this.activeSession.timerDurationMs,
             ownerDeviceId: forceOwnership ? this.deviceId : (currentPersisted?.ownerDeviceId || this.deviceId),
             updatedAtMs: now,
-            updatedByDeviceId: this.deviceId
+            updatedByDeviceId: this.deviceId,
+            rolls: { ...this.activeSession.rolls },
+            rngState: this.activeSession.rngState,
+            progress: cloneSessionProgress(this.activeSession.progress),
+            choiceTimeout: this.activeSession.choiceTimeout ? { ...this.activeSession.choiceTimeout } : null,
+            transcript: sanitizeTranscript(this.activeSession.transcript)
         };
 
         const jsonContent = JSON.stringify(persisted, null, 2);
@@ -619,10 +828,18 @@ export class CanvasPlayerPlugin extends Plugin {
 
             const stack = await restoreStackFromResume(this.app, savedSession.stack);
 
-            const history: CanvasNode[] = [];
-            for (const nodeId of savedSession.historyNodeIds) {
-                const node = canvasData.nodes.find(n => n.id === nodeId);
-                if (node) history.push(node);
+            const state = sanitizeGameState(savedSession.state);
+            const progress = sanitizeSessionProgress(savedSession.progress);
+            let history: HistoryEntry<TFile>[];
+            if (savedSession.history) {
+                history = await restoreHistoryFromResume(this.app, savedSession.history);
+            } else {
+                // Older session files only kept node ids in the current canvas
+                history = [];
+                for (const nodeId of savedSession.historyNodeIds) {
+                    const node = canvasData.nodes.find(n => n.id === nodeId);
+                    if (node) history.push({ file: currentFile, data: canvasData, node, state: { ...state }, stack: [...stack], progress, step: 0 });
+                }
             }
 
             this.activeSession = {
@@ -630,11 +847,19 @@ export class CanvasPlayerPlugin extends Plugin {
                 currentCanvasFile: currentFile,
                 currentCanvasData: canvasData,
                 currentNode,
-                state: { ...savedSession.state },
+                state,
                 stack,
                 history,
+                future: await restoreHistoryFromResume(this.app, savedSession.future),
+                step: savedSession.step ?? 0,
+                stepCount: savedSession.stepCount ?? 0,
                 timerDurationMs: savedSession.timerDurationMs,
-                timerStartTimeMs: savedSession.timerStartTimeMs
+                timerStartTimeMs: savedSession.timerStartTimeMs,
+                rolls: { ...(savedSession.rolls ?? {}) },
+                rngState: savedSession.rngState ?? randomSeed(),
+                progress,
+                choiceTimeout: sanitizeChoiceTimeout(savedSession.choiceTimeout),
+                transcript: sanitizeTranscript(savedSession.transcript)
             };
             this.activeSessionMode = savedSession.mode;
 
@@ -648,6 +873,7 @@ export class CanvasPlayerPlugin extends Plugin {
             // Restore running timer
             const mode: 'countdown' | 'countup' = savedSession.timerDurationMs > 0 ? 'countdown' : 'countup';
             this.sharedTimer.restoreFromPersisted(savedSession.timerStartTimeMs, savedSession.timerDurationMs, mode);
+            this.syncChoiceTimer();
 
             this.updateStatusBar();
             await this.ensureMiniViewOpen();
@@ -818,6 +1044,7 @@ export class CanvasPlayerPlugin extends Plugin {
                 this.activeSession = null;
                 this.activeSessionMode = null;
                 this.sharedTimer.abort();
+                this.choiceTimer.abort();
                 this.updateStatusBar();
                 await this.updateAllUIs();
             }
@@ -926,7 +1153,7 @@ export class CanvasPlayerPlugin extends Plugin {
             }
 
             // Start playback at saved node with restored state and stack
-            await this.playCanvasFromNode(currentFile, canvasData, currentNode, session.currentSessionState, this.stack);
+            await this.playCanvasFromNode(currentFile, canvasData, currentNode, sanitizeGameState(session.currentSessionState), this.stack, sanitizeSessionProgress(session.progress));
         } catch (error) {
             console.error('Canvas Player: failed to resume session', error);
             new Notice(`Failed to resume session: ${error instanceof Error ? error.message : 'Unknown error'}. Starting from the beginning.`);
@@ -1031,7 +1258,7 @@ export class CanvasPlayerPlugin extends Plugin {
         }
     }
 
-    async playCanvasFromNode(canvasFile: TFile, canvasData: CanvasData, startNode: CanvasNode, initialState?: GameState, initialStack?: StackFrame[]) {
+    async playCanvasFromNode(canvasFile: TFile, canvasData: CanvasData, startNode: CanvasNode, initialState?: GameState, initialStack?: StackFrame[], initialProgress?: SessionProgress) {
         // If rootCanvasFile is not set, this is a new session (not a resume)
         const isNewSession = !this.rootCanvasFile;
         if (isNewSession) {
@@ -1052,9 +1279,16 @@ export class CanvasPlayerPlugin extends Plugin {
             startNode,
             initialState,
             initialStack,
-            timerDurationMs
+            timerDurationMs,
+            this.settings.randomSeed ? seedFromString(this.settings.randomSeed) : randomSeed(),
+            initialProgress
         );
 
+        // Vault-wide variables always come from the vault file, even when resuming
+        this.vaultVariables = await this.loadVaultVariablesFromVault();
+        applyVaultVariables(this.activeSession.state, this.vaultVariables);
+        this.seedCanvasVariables(this.activeSession);
+
         // --- FIX BUG 2: Auto-dive if starting directly on a nested canvas file ---
         if (startNode.type === 'file' && startNode.file && startNode.file.endsWith('.canvas')) {
             await this.diveIntoCanvasForSession(startNode);
@@ -1065,6 +1299,16 @@ export class CanvasPlayerPlugin extends Plugin {
                     await leaf.openFile(this.activeSession.currentCanvasFile);
                 }
             }
+        } else if (!initialState) {
+            // Fresh start (not a resume): the start node is being entered
+            await this.enterCurrentNode();
+            // Camera mode follows {auto} edges when the HUD renders
+            if (this.settings.mode === 'modal') {
+                await this.followAutoChoice(0);
+            }
+        } else {
+            // Resuming restarts the {timeout:} countdown of the node the player stopped on
+            await this.startChoiceTimeout();
         }
         // -------------------------------------------------------------------------
 
@@ -1156,7 +1400,7 @@ export class CanvasPlayerPlugin extends Plugin {
         });
     }
 
-    async createHud(view: ItemView, data: CanvasData, currentNode: CanvasNode) {
+    async createHud(view: ItemView, data: CanvasData, currentNode: CanvasNode, autoHops = 0) {
         if (this.activeHud) this.activeHud.remove();
         if (this.activeOverlay) this.activeOverlay.remove();
 
@@ -1210,16 +1454,22 @@ export class CanvasPlayerPlugin extends Plugin {
 
         const choicesContainer = hudEl.createDiv({ cls: 'canvas-hud-choices' });
 
-        this.renderChoicesInHud(view, data, currentNode, choicesContainer);
+        this.renderChoicesInHud(view, data, currentNode, choicesContainer, autoHops);
     }
 
-    async stopCameraMode() {
+    async stopCameraMode(outcome: TranscriptOutcome = 'stopped') {
+        if (this.settings.saveTranscripts) {
+            await this.saveTranscript(outcome);
+        }
+
         // Save resume session before stopping
         if (this.activeSession) {
             const resumeStack: ResumeStackFrame[] = this.activeSession.stack.map(frame => ({
                 filePath: frame.file.path,
                 currentNodeId: frame.currentNode.id,
-                state: { ...frame.state }
+                state: { ...frame.state },
+                pass: frame.pass,
+                returns: frame.returns
             }));
 
             const session: ResumeSession = {
@@ -1227,7 +1477,8 @@ export class CanvasPlayerPlugin extends Plugin {
                 currentFilePath: this.activeSession.currentCanvasFile.path,
                 currentNodeId: this.activeSession.currentNode.id,
                 currentSessionState: { ...this.activeSession.state },
-                stack: resumeStack
+                stack: resumeStack,
+                progress: cloneSessionProgress(this.activeSession.progress)
             };
 
             await this.saveResumeSession(this.activeSession.rootCanvasFile.path, session);
@@ -1244,6 +1495,8 @@ export class CanvasPlayerPlugin extends Plugin {
 
         // Abort shared timer
         this.sharedTimer.abort();
+        this.choiceTimer.abort();
+        this.clearHudChoiceCountdown();
 
         // Remove spotlight from all views
         this.removeSpotlight();
@@ -1252,6 +1505,7 @@ export class CanvasPlayerPlugin extends Plugin {
         this.activeOverlay?.remove();
         this.activeHud = null;
         this.activeOverlay = null;
+        this.hudTakeChoice = null;
         this.cameraModeView = null;
         this.activeSession = null;
         this.activeSessionMode = null;
@@ -1270,51 +1524,52 @@ export class CanvasPlayerPlugin extends Plugin {
         });
     }
 
-    async renderChoicesInHud(view: ItemView, data: CanvasData, currentNode: CanvasNode, container: HTMLElement) {
+    async renderChoicesInHud(view: ItemView, data: CanvasData, currentNode: CanvasNode, container: HTMLElement, autoHops = 0) {
         if (!this.activeSession) return;
 
+        this.clearHudChoiceCountdown();
+        this.hudTakeChoice = null;
         container.empty();
 
+        // Chapter heading from the group around the current card
+        const chapter = getChapterForNode(data, currentNode);
+        if (chapter) {
+            renderChapterHeading(container, chapter);
+        }
+
         // Handle Markdown File Nodes (Embedded Notes)
         if (currentNode.type === 'file' && currentNode.file && !currentNode.file.endsWith('.canvas')) {
             const file = this.app.metadataCache.getFirstLinkpathDest(currentNode.file, (view as any).file?.path || "");
             if (file instanceof TFile) {
-                const content = await this.app.vault.read(file);
+                const content = stripNodeDirectiveTags(interpolateVariables(await this.app.vault.read(file), this.activeSession.state));
                 const contentEl = container.createDiv({ cls: 'canvas-player-note-content' });
                 await MarkdownRenderer.render(this.app, content, contentEl, file.path, this as unknown as Component);
+                this.attachHudTaskToggles(contentEl, view, data, currentNode, container);
             }
+        } else if (currentNode.type === 'text' && currentNode.text &&
+            (hasPlaceholders(currentNode.text) || countTasks(currentNode.text).total > 0)) {
+            // The card on the canvas shows raw {{var}} placeholders and read-only checkboxes,
+            // so show the filled-in, tickable text in the HUD
+            const contentEl = container.createDiv({ cls: 'canvas-player-note-content' });
+            const text = stripNodeDirectiveTags(interpolateVariables(currentNode.text, this.activeSession.state));
+            await MarkdownRenderer.render(this.app, text, contentEl, "/", this as unknown as Component);
+            this.attachHudTaskToggles(contentEl, view, data, currentNode, container);
         }
 
-        const rawChoices = data.edges.filter(edge => edge.fromNode === currentNode.id);
-
         // 1. Pre-parse choices and check for missing variables
-        const parsedChoices = rawChoices.map(edge => {
-            const parsed = LogicEngine.parseLabel(edge.label || "Next");
-            return { edge, parsed };
-        });
+        const canvasPath = this.activeSession.currentCanvasFile.path;
+        const choices = this.engine.getChoices(this.activeSession);
 
-        const missingVars = new Set<string>();
-        parsedChoices.forEach(item => {
-            const missing = LogicEngine.getMissingVariables(item.parsed, this.activeSession!.state);
-            missing.forEach(v => missingVars.add(v));
-        });
+        const declarations = getVariableDeclarations(this.app, this.activeSession.currentCanvasFile, data);
+        const missingVars = collectMissingVariables(choices.map(choice => choice.parsed), this.activeSession.state, this.engine.getBuiltinResolver(this.activeSession), declarations);
 
         if (missingVars.size > 0) {
             container.createEl('div', { text: 'Please set values for new variables:', cls: 'canvas-player-prompt-header' });
 
-            missingVars.forEach(variable => {
-                // Default to false if not set
-                if (this.activeSession!.state[variable] === undefined) {
-                    this.activeSession!.state[variable] = false;
-                }
-
-                new Setting(container)
-                    .setName(variable)
-                    .addToggle(toggle => toggle
-                        .setValue(this.activeSession!.state[variable])
-                        .onChange(val => {
-                            this.activeSession!.state[variable] = val;
-                        }));
+            const knownValues = collectCanvasStringValues(this.labelCache.getAll(canvasPath, data));
+            missingVars.forEach((type, variable) => {
+                // Seeds the default (declared, or false / 0 / first known value) if not set
+                addVariablePromptSetting(container, variable, type, this.activeSession!.state, knownValues[variable], declarations.get(variable));
             });
 
             new ButtonComponent(container)
@@ -1327,11 +1582,76 @@ export class CanvasPlayerPlugin extends Plugin {
             return;
         }
 
-        // 2. Filter choices based on state
-        const validChoices = parsedChoices.filter(item => LogicEngine.checkConditions(item.parsed, this.activeSession!.state));
+        // 2. Filter choices based on state (choices with broken conditions stay visible with a warning)
+        const validChoices = this.engine.getAvailableChoices(this.activeSession, choices);
+
+        // 3. Choices stay disabled until the node's tasks are done (when gated)
+        const taskGate = await this.getTaskGate(this.activeSession);
+        const tasksLocked = taskGate !== null && !areTasksComplete(taskGate);
+
+        // autoHops counts consecutive {auto} edges, for loop protection
+        const takeChoice = async (choice: PlaybackChoice, autoHops = 0) => {
+            if (tasksLocked) {
+                new Notice('Complete all tasks in this card to continue.');
+                return;
+            }
+            if (LogicEngine.hasErrors(choice.parsed)) {
+                new Notice(BROKEN_CHOICE_NOTICE);
+                return;
+            }
+            const nextNode = choice.nextNode;
+            if (nextNode) {
+                // Finish and save timer for current node
+                await this.finishTimerForActiveSession();
+
+                // Update state (node on-exit actions, then edge sets), after remembering the node for Back
+                // Nodes passed through by {auto} edges are skipped so Back does not land on them
+                await this.applyLeaveActions(choice.parsed, choice.edge, autoHops === 0);
+
+                if (this.engine.advance(this.activeSession!, nextNode) === 'canvas') {
+                    await this.diveIntoCanvas(view, nextNode, choice.parsed, autoHops);
+                    return;
+                }
+                await this.enterCurrentNode();
+
+                // Start timer for next node (not for nodes the player passes through instantly)
+                if (this.settings.enableTimeboxing && !this.engine.findAutoChoice(this.activeSession!)) {
+                    await this.startTimerForActiveSession();
+                }
+
+                // 1. Move Camera (blur stays active, only focused node will change)
+                this.zoomToNode(view, nextNode);
+
+                // 2. Render next buttons immediately
+                this.renderChoicesInHud(view, data, nextNode, container, autoHops);
+
+                // 3. Update spotlight to new node (smooth transition, no blur gap)
+                // Use requestAnimationFrame for smoother timing, then small delay for zoom to settle
+                requestAnimationFrame(() => {
+                    setTimeout(async () => {
+                        await this.applySpotlight(view, nextNode);
+                    }, 300); // Reduced delay - blur stays active, only focused node changes
+                });
+
+                // 4. Update mini view if open
+                await this.updateAllUIs();
+            }
+        };
+        this.hudTakeChoice = choice => takeChoice(choice);
+
+        // Router nodes: follow an {auto} edge right away instead of showing choices
+        // (a gated node waits for its tasks first; ticking the last one re-renders and follows it)
+        const autoChoice = this.engine.findAutoChoice(this.activeSession);
+        if (autoChoice && !tasksLocked) {
+            if (autoHops < MAX_AUTO_HOPS) {
+                await takeChoice(autoChoice, autoHops + 1);
+                return;
+            }
+            this.reportAutoHopLimit(this.activeSession);
+        }
 
         if (validChoices.length === 0) {
-            if (this.activeSession.stack.length > 0) {
+            if (this.engine.getPathEnd(this.activeSession) === 'return') {
                 new ButtonComponent(container)
                     .setButtonText("Return to Parent Canvas")
                     .setCta()
@@ -1347,115 +1667,105 @@ export class CanvasPlayerPlugin extends Plugin {
                     .onClick(async () => {
                         // Finish and save timer before stopping
                         await this.finishTimerForActiveSession();
-                        await this.stopCameraMode();
+                        await this.stopCameraMode('finished');
                     })
                     .buttonEl.addClass('mod-cta');
             }
         } else {
-            validChoices.forEach(choice => {
-                const nextNode = data.nodes.find(n => n.id === choice.edge.toNode);
-                const label = choice.parsed.text || "Next";
+            if (taskGate && tasksLocked) {
+                container.createDiv({
+                    cls: 'canvas-player-task-gate',
+                    text: `Complete all tasks to continue (${taskGate.done}/${taskGate.total})`
+                });
+            }
 
+            // Random branching: show the rolled branch instead of the choices
+            const rolled = await this.resolveRandomChoice(validChoices);
+            if (rolled) {
+                container.createDiv({ cls: 'canvas-player-roll-result', text: `🎲 Rolled: ${rolled.parsed.text || "Next"}` });
                 new ButtonComponent(container)
-                    .setButtonText(label)
-                    .onClick(async () => {
-                        if (nextNode) {
-                            // Finish and save timer for current node
-                            await this.finishTimerForActiveSession();
-
-                            // Update state
-                            LogicEngine.updateState(choice.parsed, this.activeSession!.state);
-
-                            // Check if next node is a Canvas file
-                            if (nextNode.type === 'file' && nextNode.file && nextNode.file.endsWith('.canvas')) {
-                                await this.diveIntoCanvas(view, data, nextNode);
-                                return;
-                            }
-
-                            // Update activeSession
-                            this.activeSession!.currentNode = nextNode;
-
-                            // Start timer for next node
-                            if (this.settings.enableTimeboxing) {
-                                await this.startTimerForActiveSession();
-                            }
-
-                            // 1. Move Camera (blur stays active, only focused node will change)
-                            this.zoomToNode(view, nextNode);
+                    .setButtonText('Continue')
+                    .setDisabled(tasksLocked)
+                    .onClick(() => takeChoice(rolled))
+                    .buttonEl.addClass('canvas-player-btn');
+                return;
+            }
 
-                            // 2. Render next buttons immediately
-                            this.renderChoicesInHud(view, data, nextNode, container);
+            // Timed nodes take the {default} choice when the countdown runs out
+            const takeable = getTakeableChoices(validChoices);
+            const defaultChoice = this.activeSession.choiceTimeout && !tasksLocked
+                ? takeable.find(choice => choice.parsed.isDefault)
+                : undefined;
 
-                            // 3. Update spotlight to new node (smooth transition, no blur gap)
-                            // Use requestAnimationFrame for smoother timing, then small delay for zoom to settle
-                            requestAnimationFrame(() => {
-                                setTimeout(async () => {
-                                    await this.applySpotlight(view, nextNode);
-                                }, 300); // Reduced delay - blur stays active, only focused node changes
-                            });
+            validChoices.forEach(choice => {
+                const label = choice.parsed.text || "Next";
+                const broken = !takeable.includes(choice);
 
-                            // 4. Update mini view if open
-                            await this.updateAllUIs();
-                        }
-                    })
-                    .buttonEl.addClass('canvas-player-btn');
+                const button = new ButtonComponent(container)
+                    .setButtonText(label)
+                    .setDisabled(tasksLocked || broken)
+                    .onClick(() => takeChoice(choice));
+                button.buttonEl.addClass('canvas-player-btn');
+                if (!broken) addChoiceShortcutHint(button.buttonEl, takeable.indexOf(choice));
+                addConditionWarningBadge(button.buttonEl, choice.parsed.errors);
+                if (choice === defaultChoice) {
+                    this.hudChoiceCountdownUnsubscribe = attachDefaultChoiceCountdown(button.buttonEl, this.choiceTimer);
+                }
             });
         }
     }
 
-    async diveIntoCanvas(view: ItemView, currentData: CanvasData, fileNode: CanvasNode) {
+    private clearHudChoiceCountdown() {
+        if (this.hudChoiceCountdownUnsubscribe) {
+            this.hudChoiceCountdownUnsubscribe();
+            this.hudChoiceCountdownUnsubscribe = null;
+        }
+    }
+
+    /**
+     * Make rendered checkboxes in the HUD tickable; re-renders the HUD after each change.
+     */
+    private attachHudTaskToggles(contentEl: HTMLElement, view: ItemView, data: CanvasData, currentNode: CanvasNode, container: HTMLElement) {
+        attachTaskToggles(contentEl, async (taskIndex, checked) => {
+            await this.toggleCurrentNodeTask(taskIndex, checked);
+            await this.renderChoicesInHud(view, data, currentNode, container);
+        });
+    }
+
+    /**
+     * Dive into a nested canvas in camera mode.
+     * @param autoHops Consecutive {auto} edges so far, carried into the nested canvas for loop protection
+     */
+    async diveIntoCanvas(view: ItemView, fileNode: CanvasNode, parsedChoice?: ParsedLabel, autoHops = 0) {
         if (!this.activeSession) return;
 
         // Finish and save timer for current file node before diving
         await this.finishTimerForActiveSession();
 
-        const filePath = fileNode.file;
-        if (!filePath) return;
-
-        const targetFile = this.app.metadataCache.getFirstLinkpathDest(filePath, (view as any).file?.path || "");
-
-        if (!targetFile || targetFile.extension !== 'canvas') {
-            new Notice(`Could not find canvas file: ${filePath}`);
+        // 1. Push to stack and load the nested canvas (global. and vault. variables carry over, plus {pass:} arguments)
+        const result = await this.engine.enterCanvas(this.activeSession, fileNode, parsedChoice);
+        if (result === 'missing') {
+            new Notice(`Could not find canvas file: ${fileNode.file}`);
             return;
         }
 
-        // 1. Push to stack
-        // @ts-ignore
-        const currentFile = view.file;
-        if (!currentFile) return;
-
-        this.activeSession.stack.push({
-            file: currentFile,
-            data: currentData,
-            currentNode: fileNode,
-            state: Object.assign({}, this.activeSession.state) // Clone state
-        });
-
-        // 2. Reset state for isolated scope
-        this.activeSession.state = {};
-        this.activeSession.history = [];
-
-        // 3. Open the new file
+        // 2. Open the new file
         const leaf = view.leaf;
-        await leaf.openFile(targetFile);
-
-        // 4. Get new view and data
+        await leaf.openFile(this.activeSession.currentCanvasFile);
         const newView = leaf.view as ItemView;
         this.cameraModeView = newView;
-        const content = await this.app.vault.read(targetFile);
-        const newData: CanvasData = JSON.parse(content);
-        const startNode = this.getStartNode(newData);
 
-        if (!startNode) {
+        if (result === 'no-start') {
             new Notice(`Cannot start embedded canvas: Could not find a text card containing "${this.settings.startText}" that points to a playable node.`);
-            await this.popStackAndReturn();
+            await this.popStackAndReturn(autoHops);
             return;
         }
 
-        // 5. Update activeSession
-        this.activeSession.currentCanvasFile = targetFile;
-        this.activeSession.currentCanvasData = newData;
-        this.activeSession.currentNode = startNode;
+        // 3. Enter the start node
+        const newData = this.activeSession.currentCanvasData;
+        const startNode = this.activeSession.currentNode;
+        this.seedCanvasVariables(this.activeSession);
+        await this.enterCurrentNode();
 
         // Start timer for new node
         if (this.settings.enableTimeboxing) {
@@ -1463,7 +1773,7 @@ export class CanvasPlayerPlugin extends Plugin {
         }
 
         // 6. Start playing in new context
-        await this.createHud(newView, newData, startNode);
+        await this.createHud(newView, newData, startNode, autoHops);
         this.zoomToNode(newView, startNode);
         // Clear previous focused node since we're in a new canvas
         this.currentFocusedNodeEl = null;
@@ -1477,15 +1787,29 @@ export class CanvasPlayerPlugin extends Plugin {
         await this.updateAllUIs();
     }
 
-    async popStackAndReturn() {
+    /**
+     * Return from a nested canvas to its parent in camera mode.
+     * @param autoHops Consecutive {auto} edges so far, when the return was not started by the reader
+     */
+    async popStackAndReturn(autoHops = 0) {
         if (!this.activeSession) return;
 
         // Finish and save timer for current node (if any) before returning
         await this.finishTimerForActiveSession();
 
-        const frame = this.activeSession.stack.pop();
+        // Leaving the nested canvas also leaves its current node (Back can return into it)
+        this.engine.recordHistory(this.activeSession);
+        this.clearChoiceTimeout();
+        const stateBeforeExit = { ...this.activeSession.state };
+        await this.runNodeActions('on-exit');
+        this.recordTranscriptLeave(this.activeSession, 'Return to parent canvas', stateBeforeExit);
+        const exitName = await this.getExitName(this.activeSession);
+
+        // Restore the parent (Isolated means we discard current state, restore parent)
+        // Shared global. and vault. variables changed in the child are kept, plus {return:} values
+        const frame = this.engine.returnToParent(this.activeSession);
         if (!frame) {
-            await this.stopCameraMode();
+            await this.stopCameraMode('finished');
             return;
         }
 
@@ -1497,62 +1821,48 @@ export class CanvasPlayerPlugin extends Plugin {
         const view = leaf.view as ItemView;
         this.cameraModeView = view;
 
-        // Restore state (Isolated means we discard current, restore parent)
-        this.activeSession.state = frame.state;
-        this.activeSession.currentCanvasFile = frame.file;
-        this.activeSession.currentCanvasData = frame.data;
-        this.activeSession.currentNode = frame.currentNode;
-        this.activeSession.history = [];
-
         // Start timer for restored node
         if (this.settings.enableTimeboxing) {
             await this.startTimerForActiveSession();
         }
 
         // --- FIX BUG 1: Auto-advance for Camera Mode ---
-        const edges = frame.data.edges.filter(e => e.fromNode === frame.currentNode.id);
-        if (edges.length === 1) {
-            const edge = edges[0];
-            const nextNode = frame.data.nodes.find(n => n.id === edge.toNode);
+        const returnChoice = this.engine.findReturnChoice(this.activeSession, exitName);
+        if (returnChoice) {
+            const { edge, parsed, nextNode } = returnChoice;
             if (nextNode) {
-                const parsed = LogicEngine.parseLabel(edge.label || "");
-                if (LogicEngine.checkConditions(parsed, this.activeSession.state)) {
-                    
-                    // Logic update
-                    LogicEngine.updateState(parsed, this.activeSession.state);
-
-                    // Handle diving if the NEXT node is ALSO a canvas (nested-nested)
-                    if (nextNode.type === 'file' && nextNode.file && nextNode.file.endsWith('.canvas')) {
-                         await this.diveIntoCanvas(view, frame.data, nextNode);
-                         return;
-                    }
-
-                    // Otherwise, move to next node
-                    this.activeSession.currentNode = nextNode;
-                    
-                    // Finish timer for the parent node we just skipped
-                    await this.finishTimerForActiveSession();
-                    // Start timer for the new node
-                    if (this.settings.enableTimeboxing) {
-                        await this.startTimerForActiveSession();
-                    }
+                // Logic update (node on-exit actions, then edge sets)
+                await this.applyLeaveActions(parsed, edge, false);
 
-                    await this.createHud(view, frame.data, nextNode);
-                    this.zoomToNode(view, nextNode);
-                    requestAnimationFrame(() => {
-                        setTimeout(async () => {
-                            await this.applySpotlight(view, nextNode);
-                        }, 300);
-                    });
-                    await this.updateAllUIs();
-                    return;
+                // Handle diving if the NEXT node is ALSO a canvas (nested-nested), otherwise move to next node
+                if (this.engine.advance(this.activeSession, nextNode) === 'canvas') {
+                     await this.diveIntoCanvas(view, nextNode, parsed, autoHops);
+                     return;
                 }
+                await this.enterCurrentNode();
+                
+                // Finish timer for the parent node we just skipped
+                await this.finishTimerForActiveSession();
+                // Start timer for the new node
+                if (this.settings.enableTimeboxing) {
+                    await this.startTimerForActiveSession();
+                }
+
+                await this.createHud(view, frame.data, nextNode, autoHops);
+                this.zoomToNode(view, nextNode);
+                requestAnimationFrame(() => {
+                    setTimeout(async () => {
+                        await this.applySpotlight(view, nextNode);
+                    }, 300);
+                });
+                await this.updateAllUIs();
+                return;
             }
         }
         // -----------------------------------------------
 
         // Restore HUD at the node we left off
-        await this.createHud(view, frame.data, frame.currentNode);
+        await this.createHud(view, frame.data, frame.currentNode, autoHops);
 
         // Zoom to that node
         this.zoomToNode(view, frame.currentNode);
@@ -1813,80 +2123,251 @@ export class CanvasPlayerPlugin extends Plugin {
     }
 
     /**
-     * Minimize the player (close modal, open mini view).
+     * Minimize the Reader or the Camera HUD, whichever is playing.
      */
-    async minimizePlayer() {
-        if (!this.activeSession) return;
-
-        // Close modal (but keep session active)
-        if (this.activeModal) {
-            // Set flag so close() actually closes the modal DOM element
-            this.activeModal.isMinimizing = true;
-            this.activeModal.close();
-            this.activeModal = null;
+    async minimizeActivePlayer() {
+        if ((this.activeSessionMode ?? this.settings.mode) === 'camera') {
+            await this.minimizeCameraMode();
+        } else {
+            await this.minimizePlayer();
         }
+    }
 
-        // Ensure mini view is open
-        await this.ensureMiniViewOpen();
+    private onPlayerKeydown(evt: KeyboardEvent) {
+        if (!this.activeSession || !this.isPlayerShowing()) return;
+        const hotkey = getPlayerHotkey(evt);
+        if (!hotkey) return;
 
-        // Refresh mini view to show Restore button
-        await this.updateAllUIs();
+        evt.preventDefault();
+        evt.stopPropagation();
+        void this.runPlayerHotkey(hotkey);
     }
 
     /**
-     * Restore the player (reopen modal or camera mode HUD).
+     * Whether the Reader or the Camera HUD is on screen and no other dialog is above it.
      */
-    async restorePlayer() {
-        if (!this.activeSession) return;
-
-        const mode = this.activeSessionMode ?? this.settings.mode;
-
-        // Check if we're in modal mode or camera mode
-        if (mode === 'modal') {
-            // Reopen modal
-            const session = this.activeSession;
-            const modal = new CanvasPlayerModal(
-                this,
-                session.currentCanvasFile,
-                session.currentCanvasData,
-                session.currentNode,
-                session.state,
-                session.stack,
-                session.rootCanvasFile
-            );
-            this.activeModal = modal;
-            modal.open();
-        } else {
-            // Camera mode restore
-            if (this.cameraModeView) {
-                await this.restoreCameraMode();
-            } else {
-                // Recreate a camera view and HUD (e.g. after restart)
-                const leaf = this.app.workspace.getLeaf(false) ?? this.app.workspace.getLeaf(true);
-                if (!leaf) return;
-                await leaf.openFile(this.activeSession.currentCanvasFile);
-                this.app.workspace.revealLeaf(leaf);
-                await this.startCameraMode(this.activeSession.currentCanvasData, this.activeSession.currentNode);
-            }
+    private isPlayerShowing(): boolean {
+        const modals = document.querySelectorAll('.modal-container');
+        const topModal = modals.length > 0 ? modals[modals.length - 1] : null;
+        if ((this.activeSessionMode ?? this.settings.mode) === 'modal') {
+            return this.activeModal !== null && topModal === this.activeModal.containerEl;
+        }
+        // Camera mode only while the player's canvas is the active pane, so other panes and canvases keep their keys
+        return !this.isPlayerMinimized() && topModal === null &&
+            this.cameraModeView !== null && this.app.workspace.getActiveViewOfType(ItemView) === this.cameraModeView;
+    }
+
+    private async runPlayerHotkey(hotkey: PlayerHotkey) {
+        switch (hotkey.kind) {
+            case 'option':
+                await this.chooseOption(hotkey.index);
+                break;
+            case 'back':
+                await this.navigateBack();
+                break;
+            case 'primary':
+                await this.choosePrimaryOption();
+                break;
+            case 'minimize':
+                await this.minimizeActivePlayer();
+                break;
         }
-
-        // Refresh mini view to hide Restore button
-        await this.updateAllUIs();
     }
 
     /**
-     * Minimize camera mode (hide HUD, open mini view).
+     * Take the choice with the given number (0-based), as shown on the choice buttons.
      */
-    async minimizeCameraMode() {
-        if (!this.activeSession || !this.cameraModeView) return;
+    async chooseOption(index: number) {
+        const session = this.activeSession;
+        if (!session) return;
 
-        // Hide HUD (but keep session active)
-        if (this.activeHud) {
-            this.activeHud.hide();
+        const shortcuts = await this.getChoiceShortcuts(session);
+        if (shortcuts.blocked) {
+            new Notice(shortcuts.blocked);
+            return;
+        }
+        const choice = shortcuts.options[index];
+        if (!choice) {
+            new Notice(`There is no option ${index + 1} here.`);
+            return;
         }
+        await this.takeChoice(choice);
+    }
 
-        // Ensure mini view is open
-        await this.ensureMiniViewOpen();
+    /**
+     * Take the only choice or the {default} choice, or press the single Continue, Return or End button.
+     */
+    async choosePrimaryOption() {
+        const session = this.activeSession;
+        if (!session) return;
+
+        const shortcuts = await this.getChoiceShortcuts(session);
+        if (shortcuts.blocked) {
+            new Notice(shortcuts.blocked);
+            return;
+        }
+        if (!shortcuts.primary) {
+            new Notice('Pick a choice with its number.');
+            return;
+        }
+        await shortcuts.primary();
+    }
+
+    /**
+     * What the choice shortcuts do at the current node, following the same rules as the choice buttons
+     * of the Reader and the HUD. Unfinished tasks are enforced by the choice path (see takeChoice()).
+     */
+    private async getChoiceShortcuts(session: ActiveSession): Promise<{ options: PlaybackChoice[]; primary: (() => Promise<void>) | null; blocked?: string }> {
+        const choices = this.engine.getChoices(session);
+        const declarations = getVariableDeclarations(this.app, session.currentCanvasFile, session.currentCanvasData);
+        if (collectMissingVariables(choices.map(choice => choice.parsed), session.state, this.engine.getBuiltinResolver(session), declarations).size > 0) {
+            return { options: [], primary: null, blocked: 'Set the missing variables first.' };
+        }
+
+        const camera = this.activeSessionMode === 'camera';
+        const validChoices = this.engine.getAvailableChoices(session, choices);
+        if (validChoices.length === 0) {
+            if (this.engine.getPathEnd(session) === 'return') {
+                return {
+                    options: [],
+                    primary: async () => {
+                        if (camera) {
+                            await this.finishTimerForActiveSession();
+                            await this.popStackAndReturn();
+                        } else {
+                            await this.navigateReturnToParent();
+                        }
+                    }
+                };
+            }
+            return {
+                options: [],
+                primary: async () => {
+                    await this.finishTimerForActiveSession();
+                    if (camera) {
+                        await this.stopCameraMode('finished');
+                    } else {
+                        const modal = this.activeModal;
+                        await this.stopActiveSession('finished');
+                        modal?.close();
+                    }
+                }
+            };
+        }
+
+        const rolled = await this.resolveRandomChoice(validChoices);
+        if (rolled) {
+            return { options: [], primary: () => this.takeChoice(rolled) };
+        }
+
+        // Choices with broken conditions have no number and are never the primary choice
+        const takeable = getTakeableChoices(validChoices);
+        const primaryChoice = takeable.length === 1 ? takeable[0] : takeable.find(choice => choice.parsed.isDefault);
+        return {
+            options: takeable.slice(0, MAX_CHOICE_SHORTCUTS),
+            primary: primaryChoice ? () => this.takeChoice(primaryChoice) : null
+        };
+    }
+
+    /**
+     * Take a choice without clicking its button (shortcuts and the {default} timeout),
+     * through the same path as the Reader's or the HUD's choice buttons.
+     */
+    private async takeChoice(choice: PlaybackChoice) {
+        const session = this.activeSession;
+        if (!session || !choice.nextNode) return;
+
+        if (this.activeSessionMode === 'camera' && this.hudTakeChoice) {
+            // Check ownership before navigation (navigateToNode does this for the Reader)
+            if (!(await this.assertCanControlAsync())) return;
+            await this.hudTakeChoice(choice);
+            return;
+        }
+
+        const canvasBefore = session.currentCanvasFile;
+        await this.navigateToNode(choice.parsed, choice.nextNode, choice.edge);
+
+        // Camera mode without HUD choices (e.g. not rendered yet) still moves the view along
+        if (this.activeSessionMode === 'camera' && this.activeSession) {
+            await this.showCurrentNodeInCamera(this.activeSession.currentCanvasFile !== canvasBefore);
+        }
+    }
+
+    /**
+     * Minimize the player (close modal, open mini view).
+     */
+    async minimizePlayer() {
+        if (!this.activeSession) return;
+
+        // Close modal (but keep session active)
+        if (this.activeModal) {
+            // Set flag so close() actually closes the modal DOM element
+            this.activeModal.isMinimizing = true;
+            this.activeModal.close();
+            this.activeModal = null;
+        }
+
+        // Ensure mini view is open
+        await this.ensureMiniViewOpen();
+
+        // Refresh mini view to show Restore button
+        await this.updateAllUIs();
+    }
+
+    /**
+     * Restore the player (reopen modal or camera mode HUD).
+     */
+    async restorePlayer() {
+        if (!this.activeSession) return;
+
+        const mode = this.activeSessionMode ?? this.settings.mode;
+
+        // Check if we're in modal mode or camera mode
+        if (mode === 'modal') {
+            // Reopen modal
+            const session = this.activeSession;
+            const modal = new CanvasPlayerModal(
+                this,
+                session.currentCanvasFile,
+                session.currentCanvasData,
+                session.currentNode,
+                session.state,
+                session.stack,
+                session.rootCanvasFile
+            );
+            this.activeModal = modal;
+            modal.open();
+        } else {
+            // Camera mode restore
+            if (this.cameraModeView) {
+                await this.restoreCameraMode();
+            } else {
+                // Recreate a camera view and HUD (e.g. after restart)
+                const leaf = this.app.workspace.getLeaf(false) ?? this.app.workspace.getLeaf(true);
+                if (!leaf) return;
+                await leaf.openFile(this.activeSession.currentCanvasFile);
+                this.app.workspace.revealLeaf(leaf);
+                await this.startCameraMode(this.activeSession.currentCanvasData, this.activeSession.currentNode);
+            }
+        }
+
+        // Refresh mini view to hide Restore button
+        await this.updateAllUIs();
+    }
+
+    /**
+     * Minimize camera mode (hide HUD, open mini view).
+     */
+    async minimizeCameraMode() {
+        if (!this.activeSession || !this.cameraModeView) return;
+
+        // Hide HUD (but keep session active)
+        if (this.activeHud) {
+            this.activeHud.hide();
+        }
+
+        // Ensure mini view is open
+        await this.ensureMiniViewOpen();
 
         // Refresh mini view to show Restore button
         await this.updateAllUIs();
@@ -1988,14 +2469,19 @@ export class CanvasPlayerPlugin extends Plugin {
 
     /**
      * Stop the active session.
+     * @param outcome How the run ended, for the transcript note
      */
-    async stopActiveSession() {
+    async stopActiveSession(outcome: TranscriptOutcome = 'stopped') {
         if (!this.activeSession) return;
         
         // Check ownership before stopping (but allow if we're owner)
         if (!(await this.assertCanControlAsync())) return;
         
         try {
+            if (this.settings.saveTranscripts) {
+                await this.saveTranscript(outcome);
+            }
+
             // Save resume session before stopping
             await this.saveResumeSession(this.activeSession.rootCanvasFile.path, {
                 rootFilePath: this.activeSession.rootCanvasFile.path,
@@ -2005,8 +2491,11 @@ export class CanvasPlayerPlugin extends Plugin {
                 stack: this.activeSession.stack.map(frame => ({
                     filePath: frame.file.path,
                     currentNodeId: frame.currentNode.id,
-                    state: { ...frame.state }
-                }))
+                    state: { ...frame.state },
+                    pass: frame.pass,
+                    returns: frame.returns
+                })),
+                progress: cloneSessionProgress(this.activeSession.progress)
             });
             
             // Stopping should NOT affect node averages
@@ -2019,6 +2508,8 @@ export class CanvasPlayerPlugin extends Plugin {
                     this.cameraModeTimerUnsubscribe();
                     this.cameraModeTimerUnsubscribe = null;
                 }
+                this.clearHudChoiceCountdown();
+                this.hudTakeChoice = null;
                 // Remove HUD and spotlight
                 this.activeHud?.remove();
                 this.activeOverlay?.remove();
@@ -2028,6 +2519,7 @@ export class CanvasPlayerPlugin extends Plugin {
             
             // Clean up
             this.sharedTimer.abort();
+            this.choiceTimer.abort();
             this.activeSession = null;
             this.activeSessionMode = null;
             this.activeModal = null;
@@ -2055,59 +2547,259 @@ export class CanvasPlayerPlugin extends Plugin {
 
     /**
      * Navigate back in the session history.
+     * Undoes the last step: its canvas, node, variables and visit counts, even across nested canvases.
      */
     async navigateBack() {
-        if (!this.activeSession || this.activeSession.history.length === 0) return;
+        await this.navigateHistory('back');
+    }
+
+    /**
+     * Redo the step undone by the last Back.
+     */
+    async navigateForward() {
+        await this.navigateHistory('forward');
+    }
+
+    private async navigateHistory(direction: 'back' | 'forward') {
+        const session = this.activeSession;
+        if (!session) return;
+        if ((direction === 'back' ? session.history : session.future).length === 0) return;
 
         // Check ownership before navigation
         if (!(await this.assertCanControlAsync())) return;
 
-        const previousNode = this.activeSession.history.pop();
-        if (!previousNode) return;
-
-        // Going Back should NOT affect node averages
+        // Going Back or Forward should NOT affect node averages
         this.abortTimerForActiveSession();
 
-        // Update session
-        this.activeSession.currentNode = previousNode;
-
-        // Start timer for previous node
+        const step = this.getTranscriptStep(session);
+        const stateBefore = { ...session.state };
+        const canvasBefore = session.currentCanvasFile;
+        // Shared variables first created in the steps Back undoes are removed, not just reset
+        const created = direction === 'back' ? this.engine.getSharedVariablesCreatedSinceBack(session) : [];
+        const moved = direction === 'back' ? this.engine.goBack(session) : this.engine.goForward(session);
+        if (!moved) return;
+        this.recordTranscriptLeave(session, direction === 'back' ? 'Back' : 'Forward', stateBefore, step);
+        // Open the restored node's transcript step now, so it is timed from here rather than from when it is left
+        this.getTranscriptStep(session);
+
+        // The restored state may undo vault. variables as well (Forward creates them again)
+        await this.persistVaultVariables(session.state, created);
+        await this.startChoiceTimeout();
+
+        // Start timer for the restored node
         if (this.settings.enableTimeboxing) {
             await this.startTimerForActiveSession();
         }
 
+        // Camera mode follows the step to its canvas
+        if (this.activeSessionMode === 'camera' && this.cameraModeView) {
+            await this.showCurrentNodeInCamera(session.currentCanvasFile !== canvasBefore);
+        }
+
+        // Update UI
+        await this.updateAllUIs();
+    }
+
+    /**
+     * Open the jump palette for the cards of the active session's canvas.
+     */
+    async openJumpToNode() {
+        const session = this.activeSession;
+        if (!session) return;
+
+        // Check ownership before offering navigation
+        if (!(await this.assertCanControlAsync())) return;
+
+        const nodes = session.currentCanvasData.nodes.filter(node => {
+            const target = this.getJumpTarget(session.currentCanvasData, node);
+            return target !== null && target.id !== session.currentNode.id;
+        });
+
+        new JumpToNodeModal(this.app, nodes, node => {
+            const target = this.getJumpTarget(session.currentCanvasData, node);
+            if (target) void this.requestJumpToNode(target);
+        }).open();
+    }
+
+    /**
+     * Card the jump palette moves to for an entry: the card itself, or for a group the card its chapter starts at.
+     * Returns null for cards the player cannot stop on and groups without any.
+     */
+    private getJumpTarget(data: CanvasData, node: CanvasNode): CanvasNode | null {
+        if (node.type === 'group') {
+            return getChapterEntryNode(data, node, candidate => this.isPlayableNode(candidate));
+        }
+        return this.isPlayableNode(node) ? node : null;
+    }
+
+    /**
+     * Whether the player can stop on a card: only text and file cards (as in playFromNode),
+     * and the start marker and variable declarations are skipped.
+     */
+    private isPlayableNode(node: CanvasNode): boolean {
+        if (node.type !== 'text' && node.type !== 'file') return false;
+        const startText = this.settings.startText?.toLowerCase().trim();
+        if (startText && node.type === 'text' && node.text?.toLowerCase().includes(startText)) return false;
+        return !isVariableDeclarationCard(node);
+    }
+
+    /**
+     * Jump to the first card of the chapter after the current one, or of the first chapter after a card
+     * outside every chapter (see chapters.ts).
+     */
+    async skipToNextChapter() {
+        const session = this.activeSession;
+        if (!session) return;
+
+        // Check ownership before navigation
+        if (!(await this.assertCanControlAsync())) return;
+
+        const data = session.currentCanvasData;
+        const nextGroup = getNextChapter(data, session.currentNode);
+        if (!nextGroup) {
+            new Notice(getChapterForNode(data, session.currentNode) ? 'This is the last chapter.' : 'There is no chapter after the current card.');
+            return;
+        }
+
+        const entry = getChapterEntryNode(data, nextGroup, node => this.isPlayableNode(node));
+        if (!entry) {
+            new Notice('The next chapter has no cards to play.');
+            return;
+        }
+        await this.requestJumpToNode(entry);
+    }
+
+    /**
+     * Jump to a card, asking first (when enabled) if no available choice leads there.
+     */
+    private async requestJumpToNode(node: CanvasNode) {
+        const session = this.activeSession;
+        if (!session) return;
+
+        const isChoice = this.engine.getAvailableChoices(session).some(choice => choice.nextNode?.id === node.id);
+        if (this.settings.confirmJumps && !isChoice) {
+            new ConfirmJumpModal(this.app, getNodeTitle(node), () => void this.jumpToNode(node)).open();
+            return;
+        }
+        await this.jumpToNode(node);
+    }
+
+    /**
+     * Move the active session straight to a card of the current canvas, skipping the connections in between.
+     * The jump is recorded in history, so Back returns to the card it started from.
+     * The current card's on-exit actions are skipped; the target's on-enter actions run as usual.
+     */
+    async jumpToNode(node: CanvasNode) {
+        const session = this.activeSession;
+        if (!session) return;
+
+        // Check ownership before navigation
+        if (!(await this.assertCanControlAsync())) return;
+
+        // Jumping should NOT affect node averages
+        this.abortTimerForActiveSession();
+        this.engine.recordHistory(session);
+        this.clearChoiceTimeout();
+        this.recordTranscriptLeave(session, `Jump to ${getNodeTitle(node)}`, { ...session.state });
+
+        if (this.engine.advance(session, node) === 'canvas') {
+            if (this.activeSessionMode === 'camera' && this.cameraModeView) {
+                await this.diveIntoCanvas(this.cameraModeView, node);
+            } else {
+                await this.diveIntoCanvasForSession(node);
+            }
+            return;
+        }
+        await this.enterCurrentNode();
+
+        if (this.activeSessionMode === 'camera') {
+            // The HUD follows {auto} edges when it renders
+            if (this.settings.enableTimeboxing && !this.engine.findAutoChoice(session)) {
+                await this.startTimerForActiveSession();
+            }
+            await this.showCurrentNodeInCamera(false);
+        } else {
+            if (await this.followAutoChoice(0)) return;
+            if (this.settings.enableTimeboxing) {
+                await this.startTimerForActiveSession();
+            }
+        }
+
         // Update UI
         await this.updateAllUIs();
     }
 
+    /**
+     * Re-render the Camera mode HUD and spotlight at the session's current node.
+     * @param openCanvas Open the session's canvas first (the node is in another canvas than the view)
+     */
+    private async showCurrentNodeInCamera(openCanvas: boolean) {
+        const session = this.activeSession;
+        if (!session || !this.cameraModeView) return;
+
+        const wasMinimized = this.isPlayerMinimized();
+        let view = this.cameraModeView;
+        if (openCanvas) {
+            await view.leaf.openFile(session.currentCanvasFile);
+            view = view.leaf.view as ItemView;
+            this.cameraModeView = view;
+            this.currentFocusedNodeEl = null;
+        }
+
+        const node = session.currentNode;
+        await this.createHud(view, session.currentCanvasData, node);
+        if (wasMinimized) {
+            this.activeHud?.hide();
+            return;
+        }
+        this.zoomToNode(view, node);
+        requestAnimationFrame(() => {
+            setTimeout(async () => {
+                await this.applySpotlight(view, node);
+            }, 300);
+        });
+    }
+
     /**
      * Navigate to a specific node (from a choice).
      */
-    async navigateToNode(parsedChoice: any, nextNode: CanvasNode) {
+    async navigateToNode(parsedChoice: ParsedLabel, nextNode: CanvasNode, edge: CanvasEdge, autoHops = 0) {
         if (!this.activeSession) return;
 
         // Check ownership before navigation
         if (!(await this.assertCanControlAsync())) return;
 
+        // A broken condition never counts as true
+        if (LogicEngine.hasErrors(parsedChoice)) {
+            new Notice(BROKEN_CHOICE_NOTICE);
+            return;
+        }
+
+        // Choices stay locked until the node's tasks are done
+        const taskGate = await this.getTaskGate(this.activeSession);
+        if (taskGate && !areTasksComplete(taskGate)) {
+            new Notice('Complete all tasks in this card to continue.');
+            return;
+        }
+
         // Finish timer for current node
         if (this.settings.enableTimeboxing && this.sharedTimer.isRunning()) {
             await this.finishTimerForActiveSession();
         }
 
-        // Update state
-        LogicEngine.updateState(parsedChoice, this.activeSession.state);
+        // Update state (node on-exit actions, then edge sets), after remembering the node for Back
+        // (nodes passed through by {auto} edges are skipped)
+        await this.applyLeaveActions(parsedChoice, edge, autoHops === 0);
 
-        // Push current node to history
-        this.activeSession.history.push(this.activeSession.currentNode);
-
-        // Check if next node is a canvas file (dive into nested canvas)
-        if (nextNode.type === 'file' && nextNode.file && nextNode.file.endsWith('.canvas')) {
-            await this.diveIntoCanvasForSession(nextNode);
+        // Move to the next node, or dive into it when it is a nested canvas
+        if (this.engine.advance(this.activeSession, nextNode) === 'canvas') {
+            await this.diveIntoCanvasForSession(nextNode, parsedChoice, autoHops);
             return;
         }
+        await this.enterCurrentNode();
 
-        // Update to next node
-        this.activeSession.currentNode = nextNode;
+        // Router nodes: follow an {auto} edge right away, without timing the pass-through node
+        if (await this.followAutoChoice(autoHops)) return;
 
         // Start timer for next node
         if (this.settings.enableTimeboxing) {
@@ -2120,10 +2812,11 @@ export class CanvasPlayerPlugin extends Plugin {
 
     /**
      * Navigate return to parent canvas (pop stack).
+     * @param autoHops Consecutive {auto} edges so far, when the return was not started by the reader
      */
-    async navigateReturnToParent() {
+    async navigateReturnToParent(autoHops = 0) {
         if (!this.activeSession || this.activeSession.stack.length === 0) {
-            await this.stopActiveSession();
+            await this.stopActiveSession('finished');
             return;
         }
 
@@ -2135,48 +2828,34 @@ export class CanvasPlayerPlugin extends Plugin {
             await this.finishTimerForActiveSession();
         }
 
-        const frame = this.activeSession.stack.pop();
-        if (!frame) {
-            await this.stopActiveSession();
-            return;
-        }
+        // Leaving the nested canvas also leaves its current node (Back can return into it)
+        this.engine.recordHistory(this.activeSession);
+        this.clearChoiceTimeout();
+        const stateBeforeExit = { ...this.activeSession.state };
+        await this.runNodeActions('on-exit');
+        this.recordTranscriptLeave(this.activeSession, 'Return to parent canvas', stateBeforeExit);
+        const exitName = await this.getExitName(this.activeSession);
 
         // Restore parent context using a stable local reference
+        // Shared global. and vault. variables changed in the child are kept, plus {return:} values
         const session = this.activeSession;
-        if (!session) {
-            await this.stopActiveSession();
+        if (!this.engine.returnToParent(session)) {
+            await this.stopActiveSession('finished');
             return;
         }
 
-        session.currentCanvasFile = frame.file;
-        session.currentCanvasData = frame.data;
-        session.currentNode = frame.currentNode;
-        session.state = frame.state;
-        session.history = [];
-
         // Start timer for restored node
         if (this.settings.enableTimeboxing) {
             await this.startTimerForActiveSession();
         }
 
-        // --- FIX BUG 1: Auto-advance if there is only one path forward ---
+        // --- FIX BUG 1: Auto-advance if there is only one path forward (or a matching named exit) ---
         // This skips the "Nested Canvas: ..." placeholder screen
-        if (session.currentCanvasData && session.currentNode) {
-            const edges = session.currentCanvasData.edges.filter(e => e.fromNode === session.currentNode.id);
-            if (edges.length === 1) {
-                const edge = edges[0];
-                const nextNode = session.currentCanvasData.nodes.find(n => n.id === edge.toNode);
-                
-                if (nextNode) {
-                    // Check if the edge has logic conditions
-                    const parsed = LogicEngine.parseLabel(edge.label ?? "");
-                    if (LogicEngine.checkConditions(parsed, session.state)) {
-                        // Auto-navigate to the next node immediately
-                        await this.navigateToNode(parsed, nextNode);
-                        return;
-                    }
-                }
-            }
+        const returnChoice = this.engine.findReturnChoice(session, exitName);
+        if (returnChoice?.nextNode) {
+            // Auto-navigate to the next node immediately
+            await this.navigateToNode(returnChoice.parsed, returnChoice.nextNode, returnChoice.edge, autoHops);
+            return;
         }
         // ----------------------------------------------------------------
 
@@ -2186,48 +2865,28 @@ export class CanvasPlayerPlugin extends Plugin {
 
     /**
      * Dive into a nested canvas file.
+     * @param parsedChoice The edge label that led here, for {pass:} and {return:} mappings
+     * @param autoHops Consecutive {auto} edges so far, carried into the nested canvas for loop protection
      */
-    private async diveIntoCanvasForSession(fileNode: CanvasNode) {
+    private async diveIntoCanvasForSession(fileNode: CanvasNode, parsedChoice?: ParsedLabel, autoHops = 0) {
         if (!this.activeSession) return;
 
-        const filePath = fileNode.file;
-        if (!filePath) return;
-
-        const targetFile = this.app.metadataCache.getFirstLinkpathDest(
-            filePath,
-            this.activeSession.currentCanvasFile.path
-        );
-
-        if (!targetFile || targetFile.extension !== 'canvas') {
-            new Notice(`Could not find canvas file: ${filePath}`);
+        // Push to stack and load the nested canvas (global. and vault. variables carry over, plus {pass:} arguments)
+        const result = await this.engine.enterCanvas(this.activeSession, fileNode, parsedChoice);
+        if (result === 'missing') {
+            new Notice(`Could not find canvas file: ${fileNode.file}`);
             return;
         }
-
-        // Push to stack
-        this.activeSession.stack.push({
-            file: this.activeSession.currentCanvasFile,
-            data: this.activeSession.currentCanvasData,
-            currentNode: fileNode,
-            state: { ...this.activeSession.state }
-        });
-
-        // Reset state for isolated scope
-        this.activeSession.state = {};
-
-        // Load new canvas
-        this.activeSession.currentCanvasFile = targetFile;
-        const content = await this.app.vault.read(targetFile);
-        this.activeSession.currentCanvasData = JSON.parse(content);
-
-        const startNode = this.getStartNode(this.activeSession.currentCanvasData);
-        if (!startNode) {
+        if (result === 'no-start') {
             new Notice(`Cannot start embedded canvas: Could not find a text card containing "${this.settings.startText}" that points to a playable node.`);
-            await this.navigateReturnToParent();
+            await this.navigateReturnToParent(autoHops);
             return;
         }
 
-        this.activeSession.currentNode = startNode;
-        this.activeSession.history = [];
+        this.seedCanvasVariables(this.activeSession);
+        await this.enterCurrentNode();
+
+        if (await this.followAutoChoice(autoHops)) return;
 
         // Start timer for new node
         if (this.settings.enableTimeboxing) {
@@ -2238,6 +2897,337 @@ export class CanvasPlayerPlugin extends Plugin {
         await this.updateAllUIs();
     }
 
+    /**
+     * Key identifying the session's current step, used to remember random rolls.
+     * Back and Forward restore the step number, so the roll is reused; a new step always gets a new number.
+     */
+    private getStepKey(session: ActiveSession): string {
+        return `${session.step}:${session.currentCanvasFile.path}#${session.currentNode.id}`;
+    }
+
+    /**
+     * Drop rolls of steps older than any step Back can still reach.
+     */
+    private pruneRolls(session: ActiveSession) {
+        const oldestStep = session.history[0]?.step ?? session.step;
+        for (const key of Object.keys(session.rolls)) {
+            if (parseInt(key, 10) < oldestStep) delete session.rolls[key];
+        }
+    }
+
+    /**
+     * If the current node branches randomly ({random} on the node or {chance:N} on an edge),
+     * return the rolled choice. Rolls once per step and records the result in the session.
+     * Returns null when the reader should pick.
+     */
+    async resolveRandomChoice<T extends { edge: CanvasEdge; parsed: ParsedLabel }>(choices: T[]): Promise<T | null> {
+        const session = this.activeSession;
+        if (!session) return null;
+
+        // Choices with broken conditions never take part in a roll
+        const candidates = choices.filter(choice => !LogicEngine.hasErrors(choice.parsed));
+        if (candidates.length === 0) return null;
+
+        const hasChance = candidates.some(choice => choice.parsed.chance !== null);
+        if (!hasChance) {
+            const directives = await loadNodeDirectives(this.app, session.currentCanvasFile, session.currentNode);
+            if (!directives.random) return null;
+        }
+
+        const key = this.getStepKey(session);
+        const previous = candidates.find(choice => choice.edge.id === session.rolls[key]);
+        if (previous) return previous;
+
+        const { value, state } = nextRandom(session.rngState);
+        const weights = getBranchWeights(candidates.map(choice => choice.parsed.chance));
+        const rolled = candidates[pickWeightedIndex(weights, value)];
+
+        session.rngState = state;
+        session.rolls[key] = rolled.edge.id;
+        this.pruneRolls(session);
+        await this.saveActiveSessionState();
+
+        return rolled;
+    }
+
+    /**
+     * Built-ins the playback engine gets from the vault: note properties (self.*, note("...").*),
+     * plus now.* and daysSince() from the plugin clock. Visit counters come from the engine itself.
+     */
+    private getVaultBuiltins(session: PlaybackSession<TFile>): BuiltinResolver {
+        const notes = createNotePropertyResolver(this.app, session.currentCanvasFile, session.currentNode);
+        // daysSince() reads its argument like a condition would: note properties first, then variables
+        const lookup = (name: string) => notes.handles(name) ? notes.resolve(name) : session.state[name];
+        return combineResolvers(notes, createCalendarResolver(lookup, this.clock));
+    }
+
+    /**
+     * Task progress of the current node when its choices are gated by checkboxes
+     * ({require-tasks} on the node or the global setting). Returns null when not gated.
+     */
+    async getTaskGate(session: ActiveSession): Promise<TaskProgress | null> {
+        const source = await readNodeSource(this.app, session.currentCanvasFile, session.currentNode);
+        if (source === null) return null;
+        if (!this.settings.requireTasks && !parseNodeDirectives(source).requireTasks) return null;
+        const progress = countTasks(source);
+        return progress.total > 0 ? progress : null;
+    }
+
+    /**
+     * Check or uncheck a task of the current node, writing it back to the canvas JSON or the linked note.
+     */
+    async toggleCurrentNodeTask(taskIndex: number, checked: boolean) {
+        const session = this.activeSession;
+        if (!session) return;
+
+        // Check ownership before editing files
+        if (!(await this.assertCanControlAsync())) return;
+
+        const node = session.currentNode;
+        try {
+            if (node.type === 'text' && node.text) {
+                // Patch only this card in the file as it is now, so canvas edits made since the session loaded it are kept
+                await this.app.vault.process(session.currentCanvasFile, content => {
+                    const result = setCanvasTaskChecked(content, node.id, taskIndex, checked);
+                    if (!result) return content;
+
+                    node.text = result.text;
+                    const dataNode = session.currentCanvasData.nodes.find(n => n.id === node.id);
+                    if (dataNode) dataNode.text = result.text;
+                    return result.content;
+                });
+            } else if (node.type === 'file' && node.file) {
+                const file = this.app.metadataCache.getFirstLinkpathDest(node.file, session.currentCanvasFile.path);
+                if (file instanceof TFile && file.extension === 'md') {
+                    await this.app.vault.process(file, content => setTaskChecked(content, taskIndex, checked));
+                }
+            }
+        } catch (e) {
+            console.error('Canvas Player: failed to update task', e);
+            new Notice('Failed to update task.');
+        }
+    }
+
+    /**
+     * Seed defaults declared in the current canvas's canvas-vars card or companion note.
+     */
+    private seedCanvasVariables(session: ActiveSession) {
+        seedDeclaredVariables(session.state, getVariableDeclarations(this.app, session.currentCanvasFile, session.currentCanvasData));
+    }
+
+    /**
+     * Follow a valid {auto} edge from the current node (Reader mode).
+     * Returns true when navigation continued, false when there is none, the node's tasks are not done yet
+     * or the hop limit was hit.
+     */
+    async followAutoChoice(autoHops: number): Promise<boolean> {
+        const session = this.activeSession;
+        if (!session) return false;
+
+        const autoChoice = this.engine.findAutoChoice(session);
+        if (!autoChoice) return false;
+
+        // A gated node waits for its tasks before following {auto} edges too
+        const taskGate = await this.getTaskGate(session);
+        if (taskGate && !areTasksComplete(taskGate)) return false;
+        if (autoHops >= MAX_AUTO_HOPS) {
+            this.reportAutoHopLimit(session);
+            return false;
+        }
+
+        await this.navigateToNode(autoChoice.parsed, autoChoice.nextNode, autoChoice.edge, autoHops + 1);
+        return true;
+    }
+
+    private reportAutoHopLimit(session: ActiveSession) {
+        console.error(`Canvas Player: stopped after ${MAX_AUTO_HOPS} {auto} steps at ${session.currentCanvasFile.path}#${session.currentNode.id}`);
+        new Notice(`Stopped after ${MAX_AUTO_HOPS} automatic steps. Check the {auto} connections for a loop.`);
+    }
+
+    /**
+     * Named exit ({exit:name}) declared on the session's current node, if any.
+     */
+    private async getExitName(session: ActiveSession): Promise<string | null> {
+        const directives = await loadNodeDirectives(this.app, session.currentCanvasFile, session.currentNode);
+        return directives.exit;
+    }
+
+    /**
+     * Count a visit to the session's new current node, then run its on-enter actions.
+     */
+    private async enterCurrentNode() {
+        const session = this.activeSession;
+        if (!session) return;
+
+        recordVisit(session.progress, session.currentCanvasFile.path, session.currentNode.id);
+        const step = createTranscriptStep(session.currentCanvasFile.path, session.currentNode, Date.now());
+        session.transcript.push(step);
+        const stateBeforeEnter = { ...session.state };
+        await this.runNodeActions('on-enter');
+        recordChanges(step, stateBeforeEnter, session.state);
+        await this.startChoiceTimeout();
+    }
+
+    /**
+     * Transcript step for the session's current node. A node reached without being entered
+     * (resumed, or returned to from a nested canvas) gets a new step.
+     */
+    private getTranscriptStep(session: ActiveSession): TranscriptStep {
+        const last = session.transcript[session.transcript.length - 1];
+        if (last && last.choice === null && last.nodeId === session.currentNode.id &&
+            last.canvasPath === session.currentCanvasFile.path) {
+            return last;
+        }
+        const step = createTranscriptStep(session.currentCanvasFile.path, session.currentNode, Date.now());
+        session.transcript.push(step);
+        return step;
+    }
+
+    /**
+     * Close the current node's transcript step with the choice taken and the variables changed since stateBefore.
+     */
+    private recordTranscriptLeave(session: ActiveSession, choice: string, stateBefore: GameState, step: TranscriptStep = this.getTranscriptStep(session)) {
+        recordChanges(step, stateBefore, session.state);
+        step.choice = choice;
+        // Without timeboxing there is no timer, so use the time since the node was shown
+        if (step.timeSpentMs === null) {
+            step.timeSpentMs = Date.now() - step.enteredAtMs;
+        }
+    }
+
+    /**
+     * Write the run's transcript note into the configured folder.
+     * Failures are reported but never block stopping the session.
+     */
+    async saveTranscript(outcome: TranscriptOutcome): Promise<TFile | null> {
+        const session = this.activeSession;
+        if (!session || session.transcript.length === 0) return null;
+
+        const nowMs = Date.now();
+        // The node the reader is still on has no choice yet; count its time up to now
+        const steps = session.transcript.map(step => step.choice === null && step.timeSpentMs === null
+            ? { ...step, timeSpentMs: nowMs - step.enteredAtMs }
+            : step);
+        const endedAt = new Date(nowMs);
+        const canvasName = session.rootCanvasFile.basename;
+
+        try {
+            const content = renderTranscript(this.settings.transcriptTemplate || DEFAULT_TRANSCRIPT_TEMPLATE, canvasName, steps, outcome, endedAt);
+            const file = await saveTranscriptNote(this.app, this.settings.transcriptFolder, getTranscriptNoteName(canvasName, endedAt), content);
+            new Notice(`Transcript saved to ${file.path}`);
+            return file;
+        } catch (e) {
+            console.error('Canvas Player: Failed to save transcript', e);
+            new Notice('Could not save the transcript.');
+            return null;
+        }
+    }
+
+    /**
+     * Start the {timeout:} countdown for the session's current node, or clear it when the node is untimed.
+     * The UI takes the node's {default} edge when the countdown runs out.
+     */
+    private async startChoiceTimeout() {
+        const session = this.activeSession;
+        if (!session) return;
+
+        const directives = await loadNodeDirectives(this.app, session.currentCanvasFile, session.currentNode);
+        session.choiceTimeout = directives.timeoutMs !== null
+            ? { startTimeMs: Date.now(), durationMs: directives.timeoutMs }
+            : null;
+        this.syncChoiceTimer();
+    }
+
+    /**
+     * Take the current node's {default} choice when its {timeout:} runs out, in either mode and while minimized.
+     * Runs once per countdown (the choice timer stops at zero). Nothing is taken while variables are missing
+     * or tasks are unfinished, or on a device that does not control the session; rolled nodes have no countdown.
+     */
+    private async takeDefaultChoiceOnTimeout() {
+        const session = this.activeSession;
+        const timeout = session?.choiceTimeout;
+        if (!session || !timeout) return;
+
+        // A restore re-sends the expired countdown; it was already handled
+        const key = `${session.currentCanvasFile.path}#${session.currentNode.id}@${timeout.startTimeMs}`;
+        if (this.handledChoiceTimeoutKey === key) return;
+        this.handledChoiceTimeoutKey = key;
+
+        const node = session.currentNode;
+        const choices = this.engine.getChoices(session);
+        const validChoices = this.engine.getAvailableChoices(session, choices);
+        const defaultChoice = getTakeableChoices(validChoices).find(choice => choice.parsed.isDefault);
+        if (!defaultChoice) return;
+
+        // Only the device that controls the session moves it on
+        if (!(await this.isOwnerOfCurrentSession())) return;
+
+        const declarations = getVariableDeclarations(this.app, session.currentCanvasFile, session.currentCanvasData);
+        if (collectMissingVariables(choices.map(choice => choice.parsed), session.state, this.engine.getBuiltinResolver(session), declarations).size > 0) return;
+        const taskGate = await this.getTaskGate(session);
+        if (taskGate && !areTasksComplete(taskGate)) return;
+        if (await this.resolveRandomChoice(validChoices)) return;
+
+        // The reader may have picked a choice meanwhile
+        if (this.activeSession !== session || session.currentNode !== node) return;
+        await this.takeChoice(defaultChoice);
+    }
+
+    private clearChoiceTimeout() {
+        if (this.activeSession) this.activeSession.choiceTimeout = null;
+        this.choiceTimer.abort();
+    }
+
+    /**
+     * Make the choice timer match the session's countdown (after a restore or device handover).
+     */
+    private syncChoiceTimer() {
+        const timeout = this.activeSession?.choiceTimeout;
+        if (timeout) {
+            this.choiceTimer.restoreFromPersisted(timeout.startTimeMs, timeout.durationMs);
+        } else {
+            this.choiceTimer.abort();
+        }
+    }
+
+    /**
+     * Run the on-enter or on-exit actions declared on the session's current node.
+     */
+    private async runNodeActions(trigger: NodeActionTrigger) {
+        const session = this.activeSession;
+        if (!session) return;
+
+        const directives = await loadNodeDirectives(this.app, session.currentCanvasFile, session.currentNode);
+        const sets = trigger === 'on-enter' ? directives.onEnter : directives.onExit;
+        LogicEngine.applySets(sets, session.state, this.engine.getBuiltinResolver(session));
+        await this.persistVaultVariables(session.state);
+    }
+
+    /**
+     * Apply state changes for leaving the current node through an edge:
+     * the node's on-exit actions first, then the edge's {set:} tags.
+     * Also counts the turn, remembers {once} edges and writes {prop:} note properties.
+     * @param recordHistory Remember the node for Back first (false for nodes passed through by {auto} edges)
+     */
+    private async applyLeaveActions(parsedChoice: ParsedLabel, edge: CanvasEdge, recordHistory = true) {
+        const session = this.activeSession;
+        if (!session) return;
+        if (recordHistory) {
+            this.engine.recordHistory(session);
+        }
+        this.clearChoiceTimeout();
+        const stateBeforeLeave = { ...session.state };
+        await this.runNodeActions('on-exit');
+        this.engine.applyEdge(session, edge, parsedChoice);
+        this.recordTranscriptLeave(session, parsedChoice.text || DEFAULT_CHOICE_LABEL, stateBeforeLeave);
+        await this.persistVaultVariables(session.state);
+
+        // Note writes are real vault edits, so only the owning device makes them
+        if (parsedChoice.props.length > 0 && await this.assertCanControlAsync()) {
+            await writeNoteProperties(this.app, session.currentCanvasFile, session.currentNode, parsedChoice.props);
+        }
+    }
+
     /**
      * Start timer for the current node in active session.
      * Uses countdown if node has learned average, count-up if it's the first completion.
@@ -2281,6 +3271,8 @@ export class CanvasPlayerPlugin extends Plugin {
         }
 
         const elapsedMs = this.sharedTimer.finish();
+        const step = this.getTranscriptStep(this.activeSession);
+        step.timeSpentMs = elapsedMs;
 
         // Load existing timing or start fresh
         const existingTiming = await loadTimingForNode(
@@ -2302,6 +3294,7 @@ export class CanvasPlayerPlugin extends Plugin {
                 recordEarn(this.economy, this.deviceId, points, {
                     nodeId: this.activeSession.currentNode.id
                 });
+                step.points = points;
                 await this.savePluginData();
                 new Notice(message);
             }
@@ -2449,6 +3442,37 @@ class CanvasPlayerSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('Random seed')
+            .setDesc('Seed for {chance:} and {random} branches. Leave empty for different rolls every run, or set any text to reproduce a playthrough.')
+            .addText(text => text
+                .setPlaceholder('random')
+                .setValue(this.plugin.settings.randomSeed)
+                .onChange(async (value) => {
+                    this.plugin.settings.randomSeed = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Require completed tasks')
+            .setDesc('Disable choices until every checkbox in the current card or note is checked. Add {require-tasks} to a card to enable this for that card only.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.requireTasks)
+                .onChange(async (value) => {
+                    this.plugin.settings.requireTasks = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Confirm jumps past conditions')
+            .setDesc('When you use "Jump to card..." to go to a card that is not one of the current choices, ask before skipping the connections in between.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.confirmJumps)
+                .onChange(async (value) => {
+                    this.plugin.settings.confirmJumps = value;
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl)
             .setName('Start card text')
             .setDesc('Text that identifies the start marker card. This card must point to the actual first playable node (case-insensitive).')
@@ -2477,6 +3501,44 @@ class CanvasPlayerSettingTab extends PluginSettingTab {
             cls: 'setting-item-description'
         });
 
+        containerEl.createEl('h2', { text: 'Transcripts' });
+
+        new Setting(containerEl)
+            .setName('Save transcript when a run ends')
+            .setDesc('Write a note listing each visited card, the choice taken, time spent, points earned and changed variables when you reach the end of a path or stop playing.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.saveTranscripts)
+                .onChange(async (value) => {
+                    this.plugin.settings.saveTranscripts = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Transcript folder')
+            .setDesc('Folder for transcript notes. It is created if it does not exist. Leave empty for the vault root.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.transcriptFolder)
+                .setValue(this.plugin.settings.transcriptFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.transcriptFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Transcript template')
+            .setDesc('Placeholders: {{canvas}}, {{date}}, {{time}}, {{outcome}}, {{totalTime}}, {{points}} and {{steps}}. Clear the field to use the default template.')
+            .addTextArea(text => {
+                text.inputEl.rows = 10;
+                text.inputEl.addClass('canvas-player-transcript-template');
+                text
+                    .setPlaceholder(DEFAULT_TRANSCRIPT_TEMPLATE)
+                    .setValue(this.plugin.settings.transcriptTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.transcriptTemplate = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
         containerEl.createEl('h2', { text: 'Start Node Requirement' });
         containerEl.createEl('p', {
             text: `Your canvas must have a text card containing the start text (e.g., "${this.plugin.settings.startText}"). This card should point to the actual first playable node. The marker card itself will be skipped during playback.`
@@ -2489,6 +3551,7 @@ class CanvasPlayerModal extends Modal {
     private plugin: CanvasPlayerPlugin;
     private timerEl: HTMLElement | null = null;
     private timerUnsubscribe: (() => void) | null = null;
+    private choiceCountdownUnsubscribe: (() => void) | null = null; // {default} button countdown
     private shouldActuallyClose: boolean = false; // Flag to track if we should actually close (Stop button) vs minimize
     public isMinimizing: boolean = false; // Flag to prevent recursion when minimizePlayer calls close()
 
@@ -2559,6 +3622,7 @@ class CanvasPlayerModal extends Modal {
             this.timerUnsubscribe();
             this.timerUnsubscribe = null;
         }
+        this.clearChoiceCountdown();
 
         // Clear modal reference
         // Note: We don't save resume session here because:
@@ -2605,10 +3669,16 @@ class CanvasPlayerModal extends Modal {
             return;
         }
 
+        this.clearChoiceCountdown();
         const { contentEl } = this;
         contentEl.empty();
         const container = contentEl.createDiv({ cls: 'canvas-player-container' });
         const controls = container.createDiv({ cls: 'canvas-player-controls' });
+        // Chapter heading from the group around the current card
+        const chapter = getChapterForNode(session.currentCanvasData, session.currentNode);
+        if (chapter) {
+            renderChapterHeading(container, chapter);
+        }
         const textContainer = container.createDiv({ cls: 'canvas-player-text' });
 
         new ButtonComponent(controls)
@@ -2618,6 +3688,13 @@ class CanvasPlayerModal extends Modal {
                 await this.plugin.navigateBack();
             });
 
+        new ButtonComponent(controls)
+            .setButtonText('Forward')
+            .setDisabled(session.future.length === 0)
+            .onClick(async () => {
+                await this.plugin.navigateForward();
+            });
+
         new ButtonComponent(controls)
             .setButtonText('Edit')
             .onClick(() => {
@@ -2655,7 +3732,7 @@ class CanvasPlayerModal extends Modal {
             if (file instanceof TFile) {
                 if (file.extension !== 'canvas') {
                     // Markdown files
-                    const content = await this.app.vault.read(file);
+                    const content = stripNodeDirectiveTags(interpolateVariables(await this.app.vault.read(file), session.state));
                     await MarkdownRenderer.render(
                         this.app,
                         content,
@@ -2673,26 +3750,27 @@ class CanvasPlayerModal extends Modal {
         } else {
             await MarkdownRenderer.render(
                 this.app,
-                session.currentNode.text || "...",
+                stripNodeDirectiveTags(interpolateVariables(session.currentNode.text || "...", session.state)),
                 textContainer,
                 "/",
                 this as unknown as Component
             );
         }
 
-        const rawChoices = session.currentCanvasData.edges.filter(edge => edge.fromNode === session.currentNode.id);
+        // Checkboxes are tickable and written back to the canvas or note
+        attachTaskToggles(textContainer, async (taskIndex, checked) => {
+            await this.plugin.toggleCurrentNodeTask(taskIndex, checked);
+            // Ticking the last task of a gated router card follows its {auto} edge
+            if (await this.plugin.followAutoChoice(0)) return;
+            await this.renderScene();
+        });
 
         // 1. Pre-parse and check for missing variables
-        const parsedChoices = rawChoices.map(edge => {
-            const parsed = LogicEngine.parseLabel(edge.label || "Next");
-            return { edge, parsed };
-        });
+        const engine = this.plugin.engine;
+        const choices = engine.getChoices(session);
 
-        const missingVars = new Set<string>();
-        parsedChoices.forEach(item => {
-            const missing = LogicEngine.getMissingVariables(item.parsed, session.state);
-            missing.forEach(v => missingVars.add(v));
-        });
+        const declarations = getVariableDeclarations(this.app, session.currentCanvasFile, session.currentCanvasData);
+        const missingVars = collectMissingVariables(choices.map(choice => choice.parsed), session.state, engine.getBuiltinResolver(session), declarations);
 
         const buttonContainer = container.createDiv({ cls: 'canvas-player-choices' });
 
@@ -2700,15 +3778,9 @@ class CanvasPlayerModal extends Modal {
             const promptContainer = container.createDiv({ cls: 'canvas-player-prompt' });
             promptContainer.createEl('h3', { text: 'Set values for missing variables:' });
 
-            missingVars.forEach(variable => {
-                if (session.state[variable] === undefined) session.state[variable] = false;
-
-                new Setting(promptContainer)
-                    .setName(variable)
-                    .addToggle(toggle => toggle
-                        .setValue(session.state[variable])
-                        .onChange(val => session.state[variable] = val)
-                    );
+            const knownValues = collectCanvasStringValues(this.plugin.labelCache.getAll(session.currentCanvasFile.path, session.currentCanvasData));
+            missingVars.forEach((type, variable) => {
+                addVariablePromptSetting(promptContainer, variable, type, session.state, knownValues[variable], declarations.get(variable));
             });
 
             new ButtonComponent(promptContainer)
@@ -2720,10 +3792,11 @@ class CanvasPlayerModal extends Modal {
             return; // Stop rendering regular choices
         }
 
-        const validChoices = parsedChoices.filter(item => LogicEngine.checkConditions(item.parsed, session.state));
+        // Choices with broken conditions stay visible with a warning instead of being guessed
+        const validChoices = engine.getAvailableChoices(session, choices);
 
         if (validChoices.length === 0) {
-            if (session.stack.length > 0) {
+            if (engine.getPathEnd(session) === 'return') {
                 new ButtonComponent(buttonContainer)
                     .setButtonText("Return to Parent Canvas")
                     .setCta()
@@ -2737,23 +3810,66 @@ class CanvasPlayerModal extends Modal {
                     .onClick(async () => {
                         // FIX: Finish timer to register completion/rewards before stopping
                         await this.plugin.finishTimerForActiveSession();
-                        await this.plugin.stopActiveSession();
+                        await this.plugin.stopActiveSession('finished');
                         this.close();
                     });
             }
         } else {
+            // Choices stay disabled until the node's tasks are done (when gated)
+            const taskGate = await this.plugin.getTaskGate(session);
+            const tasksLocked = taskGate !== null && !areTasksComplete(taskGate);
+            if (taskGate && tasksLocked) {
+                buttonContainer.createDiv({
+                    cls: 'canvas-player-task-gate',
+                    text: `Complete all tasks to continue (${taskGate.done}/${taskGate.total})`
+                });
+            }
+
+            // Random branching: show the rolled branch instead of the choices
+            const rolled = await this.plugin.resolveRandomChoice(validChoices);
+            if (rolled) {
+                const nextNode = rolled.nextNode;
+                buttonContainer.createDiv({ cls: 'canvas-player-roll-result', text: `🎲 Rolled: ${rolled.parsed.text || "Next"}` });
+                new ButtonComponent(buttonContainer).setButtonText('Continue').setCta().setDisabled(tasksLocked).onClick(async () => {
+                    if (nextNode) {
+                        await this.plugin.navigateToNode(rolled.parsed, nextNode, rolled.edge);
+                    }
+                });
+                return;
+            }
+
+            // Timed nodes take the {default} choice when the countdown runs out
+            const takeable = getTakeableChoices(validChoices);
+            const defaultChoice = session.choiceTimeout && !tasksLocked
+                ? takeable.find(choice => choice.parsed.isDefault)
+                : undefined;
+
             validChoices.forEach(choice => {
-                const nextNode = session.currentCanvasData.nodes.find(n => n.id === choice.edge.toNode);
+                const nextNode = choice.nextNode;
                 const lbl = choice.parsed.text || "Next";
-                new ButtonComponent(buttonContainer).setButtonText(lbl).onClick(async () => {
+                const broken = !takeable.includes(choice);
+                const choose = async () => {
                     if (nextNode) {
-                        await this.plugin.navigateToNode(choice.parsed, nextNode);
+                        await this.plugin.navigateToNode(choice.parsed, nextNode, choice.edge);
                     }
-                });
+                };
+                const button = new ButtonComponent(buttonContainer).setButtonText(lbl).setDisabled(tasksLocked || broken).onClick(choose);
+                if (!broken) addChoiceShortcutHint(button.buttonEl, takeable.indexOf(choice));
+                addConditionWarningBadge(button.buttonEl, choice.parsed.errors);
+                if (choice === defaultChoice) {
+                    this.choiceCountdownUnsubscribe = attachDefaultChoiceCountdown(button.buttonEl, this.plugin.choiceTimer);
+                }
             });
         }
     }
 
+    private clearChoiceCountdown() {
+        if (this.choiceCountdownUnsubscribe) {
+            this.choiceCountdownUnsubscribe();
+            this.choiceCountdownUnsubscribe = null;
+        }
+    }
+
 
     private async openNodeForEditing() {
         const session = this.plugin.activeSession;
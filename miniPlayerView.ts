@@ -1,12 +1,16 @@
 import { ItemView, WorkspaceLeaf, ButtonComponent, Setting } from 'obsidian';
 import { CanvasPlayerPlugin } from './main';
 import { LogicEngine } from './logic';
+import { interpolateVariables } from './interpolation';
 import { formatRemainingTime } from './sharedCountdownTimer';
 import { ActiveSession } from './playerSession';
 import { getEquippedStickerId } from './economy';
 import { getShopItem } from './shopCatalog';
 import { calculateBalance } from './economy';
 import { CanvasPlayerShopModal } from './shopModal';
+import { DEFAULT_CHOICE_LABEL } from './labelCache';
+import { getChapterForNode, renderChapterHeading } from './chapters';
+import { attachDefaultChoiceCountdown } from './choiceButtons';
 
 export const CANVAS_PLAYER_MINI_VIEW_TYPE = 'canvas-player-mini';
 export const CANVAS_PLAYER_MINI_VIEW_ICON = 'play-circle';
@@ -14,6 +18,7 @@ export const CANVAS_PLAYER_MINI_VIEW_ICON = 'play-circle';
 export class CanvasPlayerMiniView extends ItemView {
     plugin: CanvasPlayerPlugin;
     timerUnsubscribe: (() => void) | null = null;
+    private choiceCountdownUnsubscribe: (() => void) | null = null; // {default} choice countdown
     private timerDisplay: HTMLElement | null = null;
     private currentCanvasDisplay: HTMLElement | null = null;
     private currentNodeDisplay: HTMLElement | null = null;
@@ -56,10 +61,12 @@ export class CanvasPlayerMiniView extends ItemView {
             this.timerUnsubscribe();
             this.timerUnsubscribe = null;
         }
+        this.clearChoiceCountdown();
     }
 
     async render() {
         if (!this.contentContainer) return;
+        this.clearChoiceCountdown();
         this.contentContainer.empty();
 
         const session = this.plugin.activeSession;
@@ -85,12 +92,19 @@ export class CanvasPlayerMiniView extends ItemView {
         const header = this.contentContainer.createDiv({ cls: 'canvas-player-mini-header' });
         this.currentCanvasDisplay = header.createDiv({ cls: 'canvas-player-mini-canvas-name' });
         this.currentCanvasDisplay.textContent = session.currentCanvasFile.basename;
+        const chapter = getChapterForNode(session.currentCanvasData, session.currentNode);
+        if (chapter) {
+            renderChapterHeading(header, chapter);
+        }
 
         // Current node label/text
         const nodeSection = this.contentContainer.createDiv({ cls: 'canvas-player-mini-node' });
         this.currentNodeDisplay = nodeSection.createDiv({ cls: 'canvas-player-mini-node-text' });
         this.updateNodeDisplay(session);
 
+        // Where the path can go from here (read-only; choices are taken in the player)
+        this.renderChoiceSummary(session);
+
         // Timer display (if enabled)
         if (this.plugin.settings.enableTimeboxing) {
             const timerSection = this.contentContainer.createDiv({ cls: 'canvas-player-mini-timer-section' });
@@ -138,7 +152,7 @@ export class CanvasPlayerMiniView extends ItemView {
             text = `📄 ${node.file.split('/').pop() || node.file}`;
         } else if (node.type === 'text' && node.text) {
             // Show first line or truncate
-            const firstLine = node.text.split('\n')[0];
+            const firstLine = interpolateVariables(node.text, session.state).split('\n')[0];
             text = firstLine.length > 60 ? firstLine.substring(0, 57) + '...' : firstLine;
         } else {
             text = `Node: ${node.id.substring(0, 8)}...`;
@@ -146,6 +160,34 @@ export class CanvasPlayerMiniView extends ItemView {
         this.currentNodeDisplay.setText(text);
     }
 
+    private renderChoiceSummary(session: ActiveSession) {
+        if (!this.contentContainer) return;
+
+        const engine = this.plugin.engine;
+        const choices = engine.getAvailableChoices(session);
+        const summaryEl = this.contentContainer.createDiv({ cls: 'canvas-player-mini-choices' });
+        if (choices.length === 0) {
+            const endText = engine.getPathEnd(session) === 'return' ? 'Returns to parent canvas' : 'End of path';
+            summaryEl.createDiv({ cls: 'canvas-player-mini-choice', text: endText });
+            return;
+        }
+        // Timed nodes take the {default} choice when the countdown runs out, also while minimized
+        const defaultChoice = session.choiceTimeout ? choices.find(choice => choice.parsed.isDefault) : undefined;
+        choices.forEach(choice => {
+            const choiceEl = summaryEl.createDiv({ cls: 'canvas-player-mini-choice', text: `→ ${choice.parsed.text || DEFAULT_CHOICE_LABEL}` });
+            if (choice === defaultChoice) {
+                this.choiceCountdownUnsubscribe = attachDefaultChoiceCountdown(choiceEl, this.plugin.choiceTimer);
+            }
+        });
+    }
+
+    private clearChoiceCountdown() {
+        if (this.choiceCountdownUnsubscribe) {
+            this.choiceCountdownUnsubscribe();
+            this.choiceCountdownUnsubscribe = null;
+        }
+    }
+
     private updateTimerDisplay(remainingMs: number) {
         if (!this.timerDisplay) return;
         const mode = this.plugin.sharedTimer.getMode();
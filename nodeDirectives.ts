@@ -0,0 +1,135 @@
+import { App, TFile } from 'obsidian';
+import { LogicEngine, SetOperation } from './logic';
+import { CanvasNode } from './types';
+
+/**
+ * Matches <!-- canvas-player:on-enter {set:a=true} --> and <!-- canvas-player:on-exit ... --> comments.
+ */
+const ACTION_COMMENT_REGEX = /<!--\s*canvas-player:(on-enter|on-exit)\s*([\s\S]*?)-->/g;
+
+/**
+ * Inline {tag} directives that are stripped from the text before rendering.
+ */
+const RANDOM_TAG_REGEX = /\{random\}/g;
+const EXIT_TAG_REGEX = /\{exit:\s*([a-zA-Z0-9_-]+)\s*\}/g;
+const REQUIRE_TASKS_TAG_REGEX = /\{require-tasks\}/g;
+const TIMEOUT_TAG_REGEX = /\{timeout:\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h)?\s*\}/g;
+
+const TIMEOUT_UNIT_MS: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+export type NodeActionTrigger = 'on-enter' | 'on-exit';
+
+/**
+ * Directives declared inside a node's text or linked markdown file.
+ */
+export interface NodeDirectives {
+    /** State changes applied whenever the node is entered, regardless of the edge taken */
+    onEnter: SetOperation[];
+    /** State changes applied whenever the node is left */
+    onExit: SetOperation[];
+    /** {random}: pick one valid outgoing edge by weight instead of showing choices */
+    random: boolean;
+    /** {exit:name}: the named exit a nested canvas reports when it ends at this node */
+    exit: string | null;
+    /** {require-tasks}: choices stay disabled until every checkbox in the node is checked */
+    requireTasks: boolean;
+    /** {timeout:30s}: the {default} edge is taken when nobody chooses in time (null when untimed) */
+    timeoutMs: number | null;
+}
+
+function emptyDirectives(): NodeDirectives {
+    return { onEnter: [], onExit: [], random: false, exit: null, requireTasks: false, timeoutMs: null };
+}
+
+/**
+ * Parse node directives from text.
+ * Actions use HTML comments; each may contain several {set:...} tags using the same syntax as edge labels.
+ * Flags such as {random}, {exit:name}, {require-tasks} and {timeout:30s} are written inline.
+ */
+export function parseNodeDirectives(text: string): NodeDirectives {
+    const directives = emptyDirectives();
+
+    ACTION_COMMENT_REGEX.lastIndex = 0;
+    let match;
+    while ((match = ACTION_COMMENT_REGEX.exec(text)) !== null) {
+        const sets = LogicEngine.parseLabel(match[2]).sets;
+        if (match[1] === 'on-enter') {
+            directives.onEnter.push(...sets);
+        } else {
+            directives.onExit.push(...sets);
+        }
+    }
+
+    RANDOM_TAG_REGEX.lastIndex = 0;
+    directives.random = RANDOM_TAG_REGEX.test(text);
+
+    EXIT_TAG_REGEX.lastIndex = 0;
+    const exitMatch = EXIT_TAG_REGEX.exec(text);
+    directives.exit = exitMatch ? exitMatch[1] : null;
+
+    REQUIRE_TASKS_TAG_REGEX.lastIndex = 0;
+    directives.requireTasks = REQUIRE_TASKS_TAG_REGEX.test(text);
+
+    // Plain numbers are seconds: {timeout:30} == {timeout:30s}
+    TIMEOUT_TAG_REGEX.lastIndex = 0;
+    const timeoutMatch = TIMEOUT_TAG_REGEX.exec(text);
+    if (timeoutMatch) {
+        const ms = parseFloat(timeoutMatch[1]) * TIMEOUT_UNIT_MS[timeoutMatch[2] ?? 's'];
+        directives.timeoutMs = ms > 0 ? ms : null;
+    }
+
+    return directives;
+}
+
+/**
+ * Remove inline {tag} directives from node text so they are not shown to the reader.
+ */
+export function stripNodeDirectiveTags(text: string): string {
+    return text
+        .replace(RANDOM_TAG_REGEX, '')
+        .replace(EXIT_TAG_REGEX, '')
+        .replace(REQUIRE_TASKS_TAG_REGEX, '')
+        .replace(TIMEOUT_TAG_REGEX, '');
+}
+
+/**
+ * Read the source text of a node: the text of a text node, or the content of its linked markdown file.
+ * Returns null for other nodes (nested canvas links, missing files).
+ */
+export async function readNodeSource(
+    app: App,
+    canvasFile: TFile,
+    node: CanvasNode
+): Promise<string | null> {
+    // 1. Text nodes: source is node.text
+    if (node.type === 'text' && node.text) {
+        return node.text;
+    }
+
+    // 2. File nodes linking to markdown: read linked file
+    if (node.type === 'file' && node.file && !node.file.endsWith('.canvas')) {
+        try {
+            const linkedFile = app.metadataCache.getFirstLinkpathDest(node.file, canvasFile.path);
+            if (linkedFile instanceof TFile && linkedFile.extension === 'md') {
+                return await app.vault.cachedRead(linkedFile);
+            }
+        } catch (e) {
+            console.error('Failed to read linked file for node', e);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Load directives for a node.
+ * Checks text node content or the linked markdown file (nested canvas links have none).
+ */
+export async function loadNodeDirectives(
+    app: App,
+    canvasFile: TFile,
+    node: CanvasNode
+): Promise<NodeDirectives> {
+    const source = await readNodeSource(app, canvasFile, node);
+    return source !== null ? parseNodeDirectives(source) : emptyDirectives();
+}
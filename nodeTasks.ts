@@ -0,0 +1,107 @@
+import type { CanvasData } from './types';
+
+/**
+ * Matches a markdown task line: `- [ ]`, `* [x]`, `1. [ ]` and so on, also inside (nested) blockquotes
+ * and callouts (`> - [ ]`), which render as checkboxes too.
+ * Any character other than a space inside the brackets counts as checked, like Obsidian.
+ */
+const TASK_LINE_REGEX = /^(\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+\[)(.)(\])/;
+
+const FENCE_REGEX = /^\s*(?:>\s*)*(```|~~~)/;
+
+export interface TaskProgress {
+    total: number;
+    done: number;
+}
+
+/**
+ * Call fn for each task line outside code blocks, in document order.
+ */
+function forEachTaskLine(lines: string[], fn: (lineIndex: number, match: RegExpExecArray) => void): void {
+    let inFence = false;
+    lines.forEach((line, lineIndex) => {
+        if (FENCE_REGEX.test(line)) {
+            inFence = !inFence;
+            return;
+        }
+        if (inFence) return;
+        const match = TASK_LINE_REGEX.exec(line);
+        if (match) fn(lineIndex, match);
+    });
+}
+
+/**
+ * Count checked and total tasks in markdown text.
+ */
+export function countTasks(text: string): TaskProgress {
+    const progress: TaskProgress = { total: 0, done: 0 };
+    forEachTaskLine(text.split('\n'), (_lineIndex, match) => {
+        progress.total++;
+        if (match[2] !== ' ') progress.done++;
+    });
+    return progress;
+}
+
+/**
+ * Whether every task is checked (true when there are no tasks).
+ */
+export function areTasksComplete(progress: TaskProgress): boolean {
+    return progress.done >= progress.total;
+}
+
+/**
+ * Check or uncheck the task at the given position (0-based, in document order).
+ * Returns the text unchanged when there is no such task.
+ */
+export function setTaskChecked(text: string, taskIndex: number, checked: boolean): string {
+    const lines = text.split('\n');
+    let current = 0;
+    forEachTaskLine(lines, (lineIndex, match) => {
+        if (current++ !== taskIndex) return;
+        lines[lineIndex] = match[1] + (checked ? 'x' : ' ') + match[3] + lines[lineIndex].slice(match[0].length);
+    });
+    return lines.join('\n');
+}
+
+/**
+ * Check or uncheck a task of a text card in canvas JSON, returning the new file content and card text
+ * (null when the card is missing or not a text card).
+ * Obsidian writes one node per line, so only that line changes; other layouts are re-serialized
+ * with the file's own indentation (tabs for Obsidian).
+ */
+export function setCanvasTaskChecked(content: string, nodeId: string, taskIndex: number, checked: boolean): { content: string; text: string } | null {
+    const data = JSON.parse(content) as CanvasData;
+    const node = data.nodes.find(n => n.id === nodeId);
+    if (!node || node.type !== 'text' || typeof node.text !== 'string') return null;
+
+    const text = setTaskChecked(node.text, taskIndex, checked);
+    if (text === node.text) return { content, text };
+
+    const idKey = `"id":${JSON.stringify(nodeId)}`;
+    const oldValue = `"text":${JSON.stringify(node.text)}`;
+    const lines = content.split('\n');
+    const lineIndex = lines.findIndex(line => line.includes(idKey) && line.includes(oldValue));
+    if (lineIndex !== -1) {
+        lines[lineIndex] = lines[lineIndex].replace(oldValue, () => `"text":${JSON.stringify(text)}`);
+        return { content: lines.join('\n'), text };
+    }
+
+    node.text = text;
+    const indent = /^\{\r?\n([ \t]+)/.exec(content)?.[1] ?? '\t';
+    return { content: JSON.stringify(data, null, indent), text };
+}
+
+/**
+ * Make the checkboxes rendered by MarkdownRenderer clickable.
+ * Checkboxes are matched to source tasks by their order in the rendered output.
+ */
+export function attachTaskToggles(containerEl: HTMLElement, onToggle: (taskIndex: number, checked: boolean) => void): void {
+    const checkboxes = Array.from(containerEl.querySelectorAll<HTMLInputElement>('input.task-list-item-checkbox'));
+    checkboxes.forEach((checkbox, taskIndex) => {
+        checkbox.disabled = false;
+        checkbox.addEventListener('click', (evt) => {
+            evt.stopPropagation();
+            onToggle(taskIndex, checkbox.checked);
+        });
+    });
+}
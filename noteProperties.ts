@@ -0,0 +1,70 @@
+import { App, TFile } from 'obsidian';
+import type { BuiltinResolver, GameValue, PropertyWrite } from './logic';
+import type { CanvasNode } from './types';
+
+/**
+ * Matches the normalized form produced by the condition tokenizer: note("path").key
+ */
+const NOTE_PROPERTY_REGEX = /^note\("([^"]*)"\)\.(.+)$/;
+
+const SELF_PREFIX = 'self.';
+
+/**
+ * Resolve frontmatter properties for conditions:
+ * - note("Specs/API.md").status reads a note by path or link text, relative to the canvas
+ * - self.status reads the markdown file linked by the current node
+ * Missing notes and properties read as undefined (false / 0 / empty in comparisons).
+ */
+export function createNotePropertyResolver(app: App, canvasFile: TFile, node: CanvasNode): BuiltinResolver {
+    return {
+        handles: name => name.startsWith(SELF_PREFIX) || NOTE_PROPERTY_REGEX.test(name),
+        resolve: (name): GameValue | undefined => {
+            if (name.startsWith(SELF_PREFIX)) {
+                if (node.type !== 'file' || !node.file || node.file.endsWith('.canvas')) return undefined;
+                return readProperty(app, node.file, canvasFile.path, name.slice(SELF_PREFIX.length));
+            }
+            const match = NOTE_PROPERTY_REGEX.exec(name);
+            return match ? readProperty(app, match[1], canvasFile.path, match[2]) : undefined;
+        }
+    };
+}
+
+function readProperty(app: App, linkpath: string, sourcePath: string, key: string): GameValue | undefined {
+    const file = app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+    if (!(file instanceof TFile)) return undefined;
+    const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+    return toGameValue(frontmatter?.[key]);
+}
+
+function toGameValue(value: unknown): GameValue | undefined {
+    if (typeof value === 'boolean' || typeof value === 'string') return value;
+    if (typeof value === 'number' && isFinite(value)) return value;
+    // List properties (e.g. tags) compare as comma-separated text
+    if (Array.isArray(value)) return value.map(item => String(item)).join(', ');
+    return undefined;
+}
+
+/**
+ * Write {prop:} values to note frontmatter.
+ * Writes without a path go to the markdown file linked by the given node; notes that cannot be found are skipped.
+ */
+export async function writeNoteProperties(app: App, canvasFile: TFile, node: CanvasNode, writes: PropertyWrite[]): Promise<void> {
+    for (const write of writes) {
+        const linkpath = write.path ?? (node.type === 'file' && node.file && !node.file.endsWith('.canvas') ? node.file : null);
+        if (!linkpath) continue;
+
+        const file = app.metadataCache.getFirstLinkpathDest(linkpath, canvasFile.path);
+        if (!(file instanceof TFile) || file.extension !== 'md') {
+            console.warn(`Canvas Player: note not found for {prop:${write.key}}: ${linkpath}`);
+            continue;
+        }
+
+        try {
+            await app.fileManager.processFrontMatter(file, frontmatter => {
+                frontmatter[write.key] = write.value;
+            });
+        } catch (e) {
+            console.error(`Canvas Player: failed to write property ${write.key} to ${file.path}`, e);
+        }
+    }
+}
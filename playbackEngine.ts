@@ -0,0 +1,365 @@
+import { LogicEngine, ParsedLabel, GameState, BuiltinResolver, VariableMapping, combineResolvers } from './logic';
+import type { CanvasData, CanvasEdge, CanvasNode } from './types';
+import { CompiledLabelCache } from './labelCache';
+import { pickSharedVariables, mergeSharedVariables, applyVariableMappings, isSharedVariable } from './sharedVariables';
+import { SessionProgress, createProgressResolver, isOnceEdgeTaken, markOnceEdgeTaken, cloneSessionProgress } from './visitTracking';
+
+/**
+ * Navigation rules for playing a canvas, shared by Reader mode, Camera mode and the mini view.
+ * Nothing in this module touches Obsidian: canvases are reached through a CanvasLoader,
+ * so the engine can run on plain JSON canvases (F is whatever identifies a canvas file).
+ * Side effects such as node actions, timers, note writes and rendering stay with the caller.
+ */
+
+/**
+ * Finds and reads canvas files for the engine.
+ */
+export interface CanvasLoader<F> {
+    /** Resolve a file node's link relative to the canvas it appears in; null when it is not a canvas */
+    resolveCanvas(link: string, from: F): F | null;
+    /** Read and parse a canvas file */
+    loadCanvas(file: F): Promise<CanvasData>;
+    /** Stable path of a canvas, used to key parsed labels, visits and {once} edges */
+    getPath(file: F): string;
+}
+
+/**
+ * A parent canvas waiting on the stack while a nested canvas plays.
+ */
+export interface PlaybackFrame<F> {
+    file: F;
+    data: CanvasData;
+    /** The nested canvas node in the parent */
+    currentNode: CanvasNode;
+    state: GameState;
+    pass: VariableMapping[];
+    returns: VariableMapping[];
+}
+
+/**
+ * Maximum number of steps kept for Back; the oldest are dropped first.
+ */
+const MAX_HISTORY_ENTRIES = 200;
+
+/**
+ * A step the reader can go Back or Forward to: where the session was and the state it had then.
+ */
+export interface HistoryEntry<F> {
+    file: F;
+    data: CanvasData;
+    node: CanvasNode;
+    state: GameState;
+    /** Parent canvases at that step; its length is the nesting depth */
+    stack: PlaybackFrame<F>[];
+    progress: SessionProgress;
+    /** Number of the step, used to key what happened there (such as random rolls) */
+    step: number;
+}
+
+/**
+ * The part of a session the engine reads and updates. ActiveSession satisfies it with F = TFile.
+ */
+export interface PlaybackSession<F> {
+    currentCanvasFile: F;
+    currentCanvasData: CanvasData;
+    currentNode: CanvasNode;
+    state: GameState;
+    stack: PlaybackFrame<F>[];
+    /** Steps for Back, oldest first */
+    history: HistoryEntry<F>[];
+    /** Steps undone by Back, for Forward; the most recently undone is last */
+    future: HistoryEntry<F>[];
+    progress: SessionProgress;
+    /** Number of the current step; Back and Forward restore it */
+    step: number;
+    /** Steps numbered so far; only increases, so a new step never reuses the number of a discarded one */
+    stepCount: number;
+}
+
+export interface PlaybackChoice {
+    edge: CanvasEdge;
+    parsed: ParsedLabel;
+    /** Target of the edge; null when the edge points at a node that no longer exists */
+    nextNode: CanvasNode | null;
+}
+
+/**
+ * What happens when the current node has no available choices:
+ * 'return' to the parent canvas, or 'end' of the whole session.
+ */
+export type PathEnd = 'return' | 'end';
+
+/**
+ * Result of diving into a nested canvas:
+ * - 'entered': the session is at the nested canvas's start node
+ * - 'missing': the link does not resolve to a canvas; the session is unchanged
+ * - 'no-start': the parent was pushed but the canvas has no start node, so the caller should return to the parent
+ */
+export type EnterCanvasResult = 'entered' | 'missing' | 'no-start';
+
+export interface PlaybackEngineOptions<F> {
+    /** Start node of a canvas (depends on the start card setting); null when there is none */
+    getStartNode(data: CanvasData): CanvasNode | null;
+    /** Extra read-only built-ins for conditions at the session's current node (e.g. note properties) */
+    getBuiltins?(session: PlaybackSession<F>): BuiltinResolver;
+    /** Parsed label cache to share with the caller */
+    labels?: CompiledLabelCache;
+}
+
+export class PlaybackEngine<F> {
+    readonly labels: CompiledLabelCache;
+
+    constructor(private loader: CanvasLoader<F>, private options: PlaybackEngineOptions<F>) {
+        this.labels = options.labels ?? new CompiledLabelCache();
+    }
+
+    /**
+     * Read-only built-ins for conditions at the session's current node:
+     * visit counters, plus whatever the caller adds.
+     */
+    getBuiltinResolver(session: PlaybackSession<F>): BuiltinResolver {
+        const progress = createProgressResolver(session.progress, this.loader.getPath(session.currentCanvasFile));
+        const extra = this.options.getBuiltins?.(session);
+        return extra ? combineResolvers(progress, extra) : progress;
+    }
+
+    /**
+     * Every edge leaving the current node, with its parsed label, in canvas order.
+     */
+    getChoices(session: PlaybackSession<F>): PlaybackChoice[] {
+        const path = this.loader.getPath(session.currentCanvasFile);
+        const data = session.currentCanvasData;
+        return data.edges
+            .filter(edge => edge.fromNode === session.currentNode.id)
+            .map(edge => ({
+                edge,
+                parsed: this.labels.get(path, edge),
+                nextNode: data.nodes.find(n => n.id === edge.toNode) ?? null
+            }));
+    }
+
+    /**
+     * Whether a choice can be taken: its condition passes and it is not a {once} edge that was already taken.
+     */
+    isChoiceAvailable(session: PlaybackSession<F>, edge: CanvasEdge, parsed: ParsedLabel): boolean {
+        if (parsed.once && isOnceEdgeTaken(session.progress, this.loader.getPath(session.currentCanvasFile), edge.id)) {
+            return false;
+        }
+        return LogicEngine.checkConditions(parsed, session.state, this.getBuiltinResolver(session));
+    }
+
+    /**
+     * Choices to show for the current node.
+     * Choices with broken conditions stay visible (callers show them disabled with a warning) instead of being guessed.
+     */
+    getAvailableChoices(session: PlaybackSession<F>, choices: PlaybackChoice[] = this.getChoices(session)): PlaybackChoice[] {
+        return choices.filter(choice =>
+            LogicEngine.hasErrors(choice.parsed) || this.isChoiceAvailable(session, choice.edge, choice.parsed));
+    }
+
+    /**
+     * Where a path without choices leads: back to the parent canvas, or the end of the session.
+     */
+    getPathEnd(session: PlaybackSession<F>): PathEnd {
+        return session.stack.length > 0 ? 'return' : 'end';
+    }
+
+    /**
+     * First valid {auto} edge leaving the current node, if any.
+     */
+    findAutoChoice(session: PlaybackSession<F>): (PlaybackChoice & { nextNode: CanvasNode }) | null {
+        for (const choice of this.getChoices(session)) {
+            if (!choice.parsed.auto || !choice.nextNode) continue;
+            if (!this.isChoiceAvailable(session, choice.edge, choice.parsed)) continue;
+            return { ...choice, nextNode: choice.nextNode };
+        }
+        return null;
+    }
+
+    /**
+     * Pick the parent edge to follow automatically after a nested canvas ends.
+     * A named exit selects the available edge tagged {on-exit:name}; otherwise
+     * the only outgoing edge is followed. Returns null when the reader should choose.
+     */
+    findReturnChoice(session: PlaybackSession<F>, exitName: string | null): PlaybackChoice | null {
+        const choices = this.getChoices(session);
+
+        if (exitName) {
+            const named = choices.find(choice =>
+                choice.parsed.exitName === exitName && this.isChoiceAvailable(session, choice.edge, choice.parsed));
+            if (named) return named;
+        }
+
+        if (choices.length === 1 && this.isChoiceAvailable(session, choices[0].edge, choices[0].parsed)) {
+            return choices[0];
+        }
+        return null;
+    }
+
+    /**
+     * Apply the state changes of taking an edge: its {set:}, {add:} and {remove:} tags,
+     * the turn counter and the {once} mark. Node on-exit actions run before this (caller).
+     */
+    applyEdge(session: PlaybackSession<F>, edge: CanvasEdge, parsed: ParsedLabel): void {
+        LogicEngine.updateState(parsed, session.state, this.getBuiltinResolver(session));
+        session.progress.turns++;
+        if (parsed.once) {
+            markOnceEdgeTaken(session.progress, this.loader.getPath(session.currentCanvasFile), edge.id);
+        }
+    }
+
+    /**
+     * Remember the current step for Back. Call it before leaving the node, so that
+     * going Back also undoes the node's on-exit actions and the choice's state changes.
+     * Nested canvas cards are skipped: Back from the node after one goes into the nested canvas.
+     * Taking a new step discards the steps Forward could redo and numbers the step being taken.
+     */
+    recordHistory(session: PlaybackSession<F>): void {
+        session.future = [];
+        if (!isCanvasNode(session.currentNode)) {
+            session.history.push(this.snapshot(session));
+            if (session.history.length > MAX_HISTORY_ENTRIES) {
+                session.history.shift();
+            }
+        }
+        session.stepCount++;
+        session.step = session.stepCount;
+    }
+
+    /**
+     * Undo the last step, even across nested canvases. Returns false when there is nothing to go back to.
+     */
+    goBack(session: PlaybackSession<F>): boolean {
+        const entry = session.history.pop();
+        if (!entry) return false;
+        session.future.push(this.snapshot(session));
+        this.restoreSnapshot(session, entry);
+        return true;
+    }
+
+    /**
+     * Shared (global. and vault.) variables that goBack() would undo entirely: set now, but not yet
+     * created at the step it returns to. Back drops them from the state; vault. ones are also stored in the vault.
+     */
+    getSharedVariablesCreatedSinceBack(session: PlaybackSession<F>): string[] {
+        const entry = session.history[session.history.length - 1];
+        if (!entry) return [];
+        return Object.keys(session.state).filter(name => isSharedVariable(name) && !(name in entry.state));
+    }
+
+    /**
+     * Redo the last step undone by goBack(). Returns false when there is nothing to redo.
+     */
+    goForward(session: PlaybackSession<F>): boolean {
+        const entry = session.future.pop();
+        if (!entry) return false;
+        session.history.push(this.snapshot(session));
+        this.restoreSnapshot(session, entry);
+        return true;
+    }
+
+    /**
+     * Copy of the session's current step. Frames and state are copied, since returning
+     * to a parent canvas updates the frame's state in place.
+     */
+    snapshot(session: PlaybackSession<F>): HistoryEntry<F> {
+        return {
+            file: session.currentCanvasFile,
+            data: session.currentCanvasData,
+            node: session.currentNode,
+            state: { ...session.state },
+            stack: session.stack.map(copyFrame),
+            progress: cloneSessionProgress(session.progress),
+            step: session.step
+        };
+    }
+
+    private restoreSnapshot(session: PlaybackSession<F>, entry: HistoryEntry<F>): void {
+        session.currentCanvasFile = entry.file;
+        session.currentCanvasData = entry.data;
+        session.currentNode = entry.node;
+        session.state = { ...entry.state };
+        session.stack = entry.stack.map(copyFrame);
+        session.progress = cloneSessionProgress(entry.progress);
+        session.step = entry.step;
+    }
+
+    /**
+     * Move along an edge whose state changes were already applied.
+     * Returns 'canvas' without moving when the target is a nested canvas, so the caller can dive with enterCanvas().
+     */
+    advance(session: PlaybackSession<F>, nextNode: CanvasNode): 'node' | 'canvas' {
+        if (isCanvasNode(nextNode)) return 'canvas';
+        session.currentNode = nextNode;
+        return 'node';
+    }
+
+    /**
+     * Dive into the nested canvas of a file node.
+     * The parent is pushed on the stack and the nested canvas starts from only the shared
+     * (global. and vault.) variables plus the {pass:} mappings of the edge that led here.
+     */
+    async enterCanvas(session: PlaybackSession<F>, fileNode: CanvasNode, parsedChoice?: ParsedLabel): Promise<EnterCanvasResult> {
+        if (!fileNode.file) return 'missing';
+        const targetFile = this.loader.resolveCanvas(fileNode.file, session.currentCanvasFile);
+        if (!targetFile) return 'missing';
+        const data = await this.loader.loadCanvas(targetFile);
+
+        session.stack.push({
+            file: session.currentCanvasFile,
+            data: session.currentCanvasData,
+            currentNode: fileNode,
+            state: { ...session.state },
+            pass: parsedChoice?.pass ?? [],
+            returns: parsedChoice?.returns ?? []
+        });
+
+        const parentState = session.state;
+        session.state = pickSharedVariables(parentState);
+        applyVariableMappings(session.state, parentState, parsedChoice?.pass ?? []);
+        session.currentCanvasFile = targetFile;
+        session.currentCanvasData = data;
+
+        const startNode = this.options.getStartNode(data);
+        if (!startNode) return 'no-start';
+        session.currentNode = startNode;
+        return 'entered';
+    }
+
+    /**
+     * Leave the nested canvas and restore the parent at its nested canvas node.
+     * Shared variables changed in the child are kept, plus the {return:} mappings.
+     * Returns the popped frame, or null when there is no parent (the session ends).
+     */
+    returnToParent(session: PlaybackSession<F>): PlaybackFrame<F> | null {
+        const frame = session.stack.pop();
+        if (!frame) return null;
+
+        mergeSharedVariables(frame.state, session.state);
+        applyVariableMappings(frame.state, session.state, frame.returns);
+        session.state = frame.state;
+        session.currentCanvasFile = frame.file;
+        session.currentCanvasData = frame.data;
+        session.currentNode = frame.currentNode;
+        return frame;
+    }
+}
+
+/**
+ * Choices the reader can take, in order: those whose condition parsed.
+ * Choices with broken conditions are shown disabled and never taken by a click, a shortcut or a timeout.
+ */
+export function getTakeableChoices<T extends { parsed: ParsedLabel }>(choices: T[]): T[] {
+    return choices.filter(choice => !LogicEngine.hasErrors(choice.parsed));
+}
+
+/**
+ * Whether a node embeds another canvas.
+ */
+export function isCanvasNode(node: CanvasNode): boolean {
+    return node.type === 'file' && !!node.file && node.file.endsWith('.canvas');
+}
+
+function copyFrame<F>(frame: PlaybackFrame<F>): PlaybackFrame<F> {
+    return { ...frame, state: { ...frame.state }, pass: [...frame.pass], returns: [...frame.returns] };
+}
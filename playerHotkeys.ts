@@ -0,0 +1,48 @@
+/**
+ * Keyboard shortcuts while the Reader or the Camera HUD is showing:
+ * - 1-9: take the choice with that number
+ * - Backspace: Back
+ * - Enter: take the only choice, the {default} choice, or the single Continue / Return / End button
+ * - M: minimize
+ */
+export type PlayerHotkey =
+    | { kind: 'option'; index: number }
+    | { kind: 'back' }
+    | { kind: 'primary' }
+    | { kind: 'minimize' };
+
+/**
+ * Number of choices that get a digit shortcut.
+ */
+export const MAX_CHOICE_SHORTCUTS = 9;
+
+/**
+ * Shortcut for a key press, or null when the key is not a player shortcut.
+ * Keys typed into text fields (such as variable prompts) and keys with modifiers are never shortcuts.
+ */
+export function getPlayerHotkey(evt: KeyboardEvent): PlayerHotkey | null {
+    if (evt.ctrlKey || evt.metaKey || evt.altKey || evt.isComposing) return null;
+    if (isEditableTarget(evt.target)) return null;
+
+    if (/^[1-9]$/.test(evt.key)) {
+        return { kind: 'option', index: Number(evt.key) - 1 };
+    }
+    switch (evt.key) {
+        case 'Backspace':
+            return { kind: 'back' };
+        case 'Enter':
+            // A focused button keeps its own Enter
+            if (evt.target instanceof HTMLButtonElement) return null;
+            return { kind: 'primary' };
+        case 'm':
+        case 'M':
+            return { kind: 'minimize' };
+        default:
+            return null;
+    }
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || target.closest('input, textarea, select') !== null;
+}
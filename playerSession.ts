@@ -1,6 +1,18 @@
 import { TFile } from 'obsidian';
 import { CanvasNode, CanvasData, StackFrame } from './types';
 import { GameState } from './logic';
+import { randomSeed } from './random';
+import { SessionProgress, createSessionProgress, cloneSessionProgress } from './visitTracking';
+import { TranscriptStep } from './transcript';
+import type { HistoryEntry } from './playbackEngine';
+
+/**
+ * Countdown for a node with {timeout:}, stored as wall-clock times so it survives minimize and device handover.
+ */
+export interface ChoiceTimeout {
+    startTimeMs: number;
+    durationMs: number;
+}
 
 /**
  * Represents an active canvas player session that persists independently of UI.
@@ -12,9 +24,17 @@ export interface ActiveSession {
     currentNode: CanvasNode;
     state: GameState;
     stack: StackFrame[];
-    history: CanvasNode[]; // For Back navigation in modal mode
+    history: HistoryEntry<TFile>[]; // Snapshots for Back, across nested canvases
+    future: HistoryEntry<TFile>[]; // Snapshots undone by Back, for Forward
+    step: number; // Number of the current step (restored by Back and Forward)
+    stepCount: number; // Steps numbered so far; only increases
     timerDurationMs: number; // The initial duration when timer was started for current node
     timerStartTimeMs: number | null; // When the timer was started for current node
+    rolls: Record<string, string>; // Random branch results (edge id) keyed by step number, so Back + forward doesn't re-roll
+    rngState: number; // Seedable random generator state
+    progress: SessionProgress; // Visit counters, turns and taken {once} edges
+    choiceTimeout: ChoiceTimeout | null; // Running {timeout:} countdown for the current node
+    transcript: TranscriptStep[]; // Visited nodes, choices and variable changes, for the transcript note
 }
 
 /**
@@ -27,7 +47,9 @@ export function createActiveSession(
     currentNode: CanvasNode,
     initialState?: GameState,
     initialStack?: StackFrame[],
-    timerDurationMs: number = 0
+    timerDurationMs: number = 0,
+    rngState: number = randomSeed(),
+    progress?: SessionProgress
 ): ActiveSession {
     return {
         rootCanvasFile,
@@ -39,11 +61,21 @@ export function createActiveSession(
             file: frame.file,
             data: frame.data,
             currentNode: frame.currentNode,
-            state: { ...frame.state }
+            state: { ...frame.state },
+            pass: [...frame.pass],
+            returns: [...frame.returns]
         })) : [],
         history: [],
+        future: [],
+        step: 0,
+        stepCount: 0,
         timerDurationMs,
-        timerStartTimeMs: Date.now()
+        timerStartTimeMs: Date.now(),
+        rolls: {},
+        rngState,
+        progress: progress ? cloneSessionProgress(progress) : createSessionProgress(),
+        choiceTimeout: null,
+        transcript: []
     };
 }
 
@@ -58,10 +90,28 @@ export function cloneActiveSession(session: ActiveSession): ActiveSession {
             file: frame.file,
             data: frame.data,
             currentNode: frame.currentNode,
-            state: { ...frame.state }
+            state: { ...frame.state },
+            pass: [...frame.pass],
+            returns: [...frame.returns]
         })),
         history: [...session.history],
+        future: [...session.future],
+        rolls: { ...session.rolls },
+        progress: cloneSessionProgress(session.progress),
+        choiceTimeout: session.choiceTimeout ? { ...session.choiceTimeout } : null,
+        transcript: session.transcript.map(step => ({ ...step, changes: step.changes.map(change => ({ ...change })) })),
         currentCanvasData: { ...session.currentCanvasData } // Shallow clone, but nodes/edges are arrays that will be shared
     };
 }
 
+
+/**
+ * Copies a {timeout:} countdown loaded from JSON; anything malformed means no countdown.
+ */
+export function sanitizeChoiceTimeout(raw: unknown): ChoiceTimeout | null {
+    if (!raw || typeof raw !== 'object') return null;
+    const { startTimeMs, durationMs } = raw as Record<string, unknown>;
+    if (typeof startTimeMs !== 'number' || !isFinite(startTimeMs)) return null;
+    if (typeof durationMs !== 'number' || !isFinite(durationMs) || durationMs <= 0) return null;
+    return { startTimeMs, durationMs };
+}
@@ -0,0 +1,68 @@
+/**
+ * Small seedable PRNG (mulberry32) for reproducible random branching.
+ * The whole generator state is a single 32-bit integer, so it can be stored in session JSON.
+ */
+
+/**
+ * Advance the generator and return a float in [0, 1) with the next state.
+ */
+export function nextRandom(state: number): { value: number; state: number } {
+    const nextState = (state + 0x6D2B79F5) | 0;
+    let t = nextState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    return { value, state: nextState };
+}
+
+/**
+ * Turn a user-provided seed string into a generator state (FNV-1a hash).
+ */
+export function seedFromString(seed: string): number {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash | 0;
+}
+
+/**
+ * Create a fresh, unpredictable generator state.
+ */
+export function randomSeed(): number {
+    return (Math.random() * 4294967296) | 0;
+}
+
+/**
+ * Pick an index from a list of weights using a random value in [0, 1).
+ * Falls back to equal weights when every weight is zero.
+ */
+export function pickWeightedIndex(weights: number[], random: number): number {
+    const usable = weights.map(w => (w > 0 ? w : 0));
+    let total = usable.reduce((sum, w) => sum + w, 0);
+    if (total === 0) {
+        usable.fill(1);
+        total = usable.length;
+    }
+
+    let threshold = random * total;
+    for (let i = 0; i < usable.length; i++) {
+        threshold -= usable[i];
+        if (threshold < 0) return i;
+    }
+    return usable.length - 1;
+}
+
+/**
+ * Turn {chance:N} values into branch weights.
+ * Untagged branches share whatever is left of 100 equally, so
+ * `{chance:30}` next to an untagged edge behaves like a 30/70 split.
+ */
+export function getBranchWeights(chances: (number | null)[]): number[] {
+    const tagged = chances.filter((c): c is number => c !== null);
+    const untaggedCount = chances.length - tagged.length;
+    const remainder = Math.max(0, 100 - tagged.reduce((sum, c) => sum + c, 0));
+    const untaggedWeight = untaggedCount > 0 ? remainder / untaggedCount : 0;
+    return chances.map(c => (c !== null ? c : untaggedWeight));
+}
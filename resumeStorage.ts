@@ -1,6 +1,10 @@
 import { App, TFile, Plugin } from 'obsidian';
 import type { CanvasNode, CanvasData, StackFrame } from './types';
-import type { GameState } from './logic';
+import { GameState, VariableMapping, sanitizeGameState } from './logic';
+import { SessionProgress, sanitizeSessionProgress } from './visitTracking';
+import type { ChoiceTimeout } from './playerSession';
+import type { TranscriptStep } from './transcript';
+import type { HistoryEntry } from './playbackEngine';
 
 /**
  * Resume session snapshot for a canvas playback session.
@@ -17,6 +21,8 @@ export interface ResumeSession {
     currentSessionState: GameState;
     /** Stack of nested canvas frames (if any) */
     stack: ResumeStackFrame[];
+    /** Visit counters and taken {once} edges (missing in older resume data) */
+    progress?: SessionProgress;
 }
 
 /**
@@ -29,8 +35,36 @@ export interface ResumeStackFrame {
     currentNodeId: string;
     /** Variable state at time of diving */
     state: GameState;
+    /** {pass:} mappings of the edge that entered the nested canvas (missing in older resume data) */
+    pass?: VariableMapping[];
+    /** {return:} mappings applied when returning to this frame (missing in older resume data) */
+    returns?: VariableMapping[];
 }
 
+/**
+ * Back and Forward history entry (serialized form).
+ */
+export interface PersistedHistoryEntry {
+    /** Canvas file path of the step */
+    filePath: string;
+    /** Node ID of the step in filePath */
+    nodeId: string;
+    /** Variable state at the step */
+    state: GameState;
+    /** Parent canvases at the step */
+    stack: ResumeStackFrame[];
+    /** Visit counters and taken {once} edges at the step */
+    progress: SessionProgress;
+    /** Number of the step (missing in older session files) */
+    step?: number;
+}
+
+/**
+ * Most Back and Forward steps kept in the session file. Each is a full snapshot, and the file is
+ * rewritten on every step and re-read by every other device, so only the most recent steps are synced.
+ */
+export const MAX_PERSISTED_HISTORY_ENTRIES = 20;
+
 /**
  * Persisted active session state for timer persistence across Obsidian restarts.
  * Only used when timeboxing is enabled.
@@ -42,6 +76,7 @@ export interface PersistedActiveSession {
     currentNodeId: string;
     state: GameState;
     stack: ResumeStackFrame[];
+    /** Node IDs of the Back history (read by older versions; see history) */
     historyNodeIds: string[];
     timerStartTimeMs: number;
     timerDurationMs: number;
@@ -51,6 +86,23 @@ export interface PersistedActiveSession {
     updatedAtMs: number;
     /** Device ID that made the last update */
     updatedByDeviceId: string;
+    /** Random branch results keyed by step (missing in older session files) */
+    rolls?: Record<string, string>;
+    /** Random generator state (missing in older session files) */
+    rngState?: number;
+    /** Visit counters and taken {once} edges (missing in older session files) */
+    progress?: SessionProgress;
+    /** Running {timeout:} countdown for the current node */
+    choiceTimeout?: ChoiceTimeout | null;
+    /** Steps recorded so far for the transcript note */
+    transcript?: TranscriptStep[];
+    /** Back history snapshots (missing in older session files) */
+    history?: PersistedHistoryEntry[];
+    /** Steps undone by Back, for Forward */
+    future?: PersistedHistoryEntry[];
+    /** Number of the current step and steps numbered so far (missing in older session files) */
+    step?: number;
+    stepCount?: number;
 }
 
 /**
@@ -121,18 +173,13 @@ export async function validateResumeSession(
  */
 export async function restoreStackFromResume(
     app: any,
-    resumeStack: ResumeStackFrame[]
+    resumeStack: ResumeStackFrame[],
+    canvasCache: Map<string, LoadedCanvas> = new Map()
 ): Promise<StackFrame[]> {
     const stack: StackFrame[] = [];
 
     for (const resumeFrame of resumeStack) {
-        const file = app.vault.getAbstractFileByPath(resumeFrame.filePath);
-        if (!(file instanceof TFile)) {
-            throw new Error(`Stack frame file not found: ${resumeFrame.filePath}`);
-        }
-
-        const content = await app.vault.read(file);
-        const data: CanvasData = JSON.parse(content);
+        const { file, data } = await loadCanvasCached(app, resumeFrame.filePath, canvasCache, 'Stack frame');
         const node = data.nodes.find(n => n.id === resumeFrame.currentNodeId);
         if (!node) {
             throw new Error(`Stack frame node not found: ${resumeFrame.currentNodeId}`);
@@ -142,10 +189,94 @@ export async function restoreStackFromResume(
             file,
             data,
             currentNode: node,
-            state: { ...resumeFrame.state }
+            state: sanitizeGameState(resumeFrame.state),
+            pass: sanitizeMappings(resumeFrame.pass),
+            returns: sanitizeMappings(resumeFrame.returns)
         });
     }
 
     return stack;
 }
 
+
+/**
+ * Serialize Back or Forward history for the session file, keeping the most recent MAX_PERSISTED_HISTORY_ENTRIES
+ * (both lists have their most recent step last).
+ */
+export function serializeHistory(entries: HistoryEntry<TFile>[]): PersistedHistoryEntry[] {
+    return entries.slice(-MAX_PERSISTED_HISTORY_ENTRIES).map(entry => ({
+        filePath: entry.file.path,
+        nodeId: entry.node.id,
+        state: { ...entry.state },
+        stack: entry.stack.map(frame => ({
+            filePath: frame.file.path,
+            currentNodeId: frame.currentNode.id,
+            state: { ...frame.state },
+            pass: frame.pass,
+            returns: frame.returns
+        })),
+        progress: entry.progress,
+        step: entry.step
+    }));
+}
+
+/**
+ * Restore Back or Forward history from the session file.
+ * Entries whose canvas or node no longer exists are dropped instead of failing the restore.
+ */
+export async function restoreHistoryFromResume(app: App, raw: unknown): Promise<HistoryEntry<TFile>[]> {
+    if (!Array.isArray(raw)) return [];
+
+    // Long histories mostly revisit the same few canvases
+    const canvasCache = new Map<string, LoadedCanvas>();
+    const entries: HistoryEntry<TFile>[] = [];
+    for (const item of raw) {
+        if (!item || typeof item.filePath !== 'string' || typeof item.nodeId !== 'string') continue;
+        try {
+            const { file, data } = await loadCanvasCached(app, item.filePath, canvasCache, 'History');
+            const node = data.nodes.find(n => n.id === item.nodeId);
+            if (!node) continue;
+            entries.push({
+                file,
+                data,
+                node,
+                state: sanitizeGameState(item.state),
+                stack: await restoreStackFromResume(app, Array.isArray(item.stack) ? item.stack : [], canvasCache),
+                progress: sanitizeSessionProgress(item.progress),
+                step: typeof item.step === 'number' ? item.step : 0
+            });
+        } catch (e) {
+            console.warn('Canvas Player: Dropping history entry that could not be restored', e);
+        }
+    }
+    return entries;
+}
+
+interface LoadedCanvas {
+    file: TFile;
+    data: CanvasData;
+}
+
+async function loadCanvasCached(app: App, path: string, cache: Map<string, LoadedCanvas>, what: string): Promise<LoadedCanvas> {
+    const cached = cache.get(path);
+    if (cached) return cached;
+
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+        throw new Error(`${what} file not found: ${path}`);
+    }
+    const content = await app.vault.read(file);
+    const loaded = { file, data: JSON.parse(content) as CanvasData };
+    cache.set(path, loaded);
+    return loaded;
+}
+
+/**
+ * Keep only well-formed variable mappings from resume data.
+ */
+function sanitizeMappings(raw: unknown): VariableMapping[] {
+    if (!Array.isArray(raw)) return [];
+    return raw.filter((m): m is VariableMapping =>
+        !!m && typeof m.target === 'string' && typeof m.source === 'string'
+    ).map(m => ({ target: m.target, source: m.source }));
+}
@@ -1,12 +1,25 @@
+import { DEFAULT_TRANSCRIPT_TEMPLATE } from './transcript';
 
 export interface CanvasPlayerSettings {
     mode: 'modal' | 'camera';
     startText: string;
     enableTimeboxing: boolean;
+    randomSeed: string; // Empty = different rolls every run
+    requireTasks: boolean; // Disable choices until every checkbox in the node is checked
+    confirmJumps: boolean; // Ask before "Jump to card" skips connections and their conditions
+    saveTranscripts: boolean; // Write a transcript note when a run ends
+    transcriptFolder: string;
+    transcriptTemplate: string;
 }
 
 export const DEFAULT_SETTINGS: CanvasPlayerSettings = {
     mode: 'modal',
     startText: 'canvas-start',
     enableTimeboxing: true,
+    randomSeed: '',
+    requireTasks: false,
+    confirmJumps: true,
+    saveTranscripts: false,
+    transcriptFolder: 'Canvas Player Transcripts',
+    transcriptTemplate: DEFAULT_TRANSCRIPT_TEMPLATE,
 };
@@ -12,6 +12,14 @@ export class SharedCountdownTimer extends Component {
     private intervalId: number | null = null;
     private subscribers: Set<(remainingMs: number) => void> = new Set();
 
+    /**
+     * @param stopAtZero Stop ticking once a countdown reaches zero (the last update has remainingMs <= 0),
+     * instead of counting into negative time
+     */
+    constructor(private stopAtZero = false) {
+        super();
+    }
+
     /**
      * Start the timer with the given initial duration.
      * @param initialDurationMs The countdown duration in milliseconds (or ignored in count-up mode)
@@ -28,9 +36,7 @@ export class SharedCountdownTimer extends Component {
         this.notifySubscribers();
         
         // Update every second
-        this.intervalId = window.setInterval(() => {
-            this.notifySubscribers();
-        }, 1000);
+        this.startTicking();
     }
 
     /**
@@ -47,9 +53,7 @@ export class SharedCountdownTimer extends Component {
         this.notifySubscribers();
 
         // Update every second
-        this.intervalId = window.setInterval(() => {
-            this.notifySubscribers();
-        }, 1000);
+        this.startTicking();
     }
 
     /**
@@ -128,6 +132,21 @@ export class SharedCountdownTimer extends Component {
         };
     }
 
+    private startTicking(): void {
+        if (this.hasStoppedAtZero()) return;
+        this.intervalId = window.setInterval(() => {
+            this.notifySubscribers();
+            if (this.hasStoppedAtZero() && this.intervalId !== null) {
+                window.clearInterval(this.intervalId);
+                this.intervalId = null;
+            }
+        }, 1000);
+    }
+
+    private hasStoppedAtZero(): boolean {
+        return this.stopAtZero && this.mode === 'countdown' && this.getRemainingMs() <= 0;
+    }
+
     private notifySubscribers(): void {
         const remainingMs = this.getRemainingMs();
         this.subscribers.forEach(callback => {
@@ -0,0 +1,70 @@
+import { GameState, VariableMapping } from './logic';
+
+/**
+ * Variables prefixed with global. are shared by every canvas on the stack.
+ */
+export const GLOBAL_PREFIX = 'global.';
+
+/**
+ * Variables prefixed with vault. are shared by every canvas on the stack and
+ * persisted in a vault file, so they carry over between different root canvases.
+ */
+export const VAULT_PREFIX = 'vault.';
+
+export function isSharedVariable(name: string): boolean {
+    return name.startsWith(GLOBAL_PREFIX) || name.startsWith(VAULT_PREFIX);
+}
+
+/**
+ * Copy only the shared (global. and vault.) variables, used as the starting state of a nested canvas.
+ */
+export function pickSharedVariables(state: GameState): GameState {
+    const shared: GameState = {};
+    for (const [name, value] of Object.entries(state)) {
+        if (isSharedVariable(name)) shared[name] = value;
+    }
+    return shared;
+}
+
+/**
+ * Copy shared variables changed in a nested canvas back into the parent's state.
+ */
+export function mergeSharedVariables(target: GameState, source: GameState): void {
+    Object.assign(target, pickSharedVariables(source));
+}
+
+/**
+ * Seed vault.* variables in state from the persisted vault scope (stored without the prefix).
+ */
+export function applyVaultVariables(state: GameState, vaultVariables: GameState): void {
+    for (const [name, value] of Object.entries(vaultVariables)) {
+        state[VAULT_PREFIX + name] = value;
+    }
+}
+
+/**
+ * Collect vault.* variables from state, without the prefix, for persisting.
+ */
+export function extractVaultVariables(state: GameState): GameState {
+    const vaultVariables: GameState = {};
+    for (const [name, value] of Object.entries(state)) {
+        if (name.startsWith(VAULT_PREFIX)) {
+            vaultVariables[name.slice(VAULT_PREFIX.length)] = value;
+        }
+    }
+    return vaultVariables;
+}
+
+/**
+ * Copy mapped variables from one canvas's state into another's.
+ * Used for {pass:} when diving into a nested canvas and {return:} when coming back.
+ * Variables that are not set in the source are left untouched in the target.
+ */
+export function applyVariableMappings(target: GameState, source: GameState, mappings: VariableMapping[]): void {
+    for (const mapping of mappings) {
+        const value = source[mapping.source];
+        if (value !== undefined) {
+            target[mapping.target] = value;
+        }
+    }
+}
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getNextChapter } from '../chapters';
+import type { CanvasData, CanvasNode } from '../types';
+
+function node(id: string, type: 'text' | 'group', x: number, y: number, width = 100, height = 100): CanvasNode {
+    return { id, type, x, y, width, height };
+}
+
+// Intro card above two chapters side by side, and an epilogue below them
+const CANVAS: CanvasData = {
+    nodes: [
+        node('intro', 'text', 0, -300),
+        node('one', 'group', 0, 0, 400, 400),
+        node('a', 'text', 50, 50),
+        node('two', 'group', 500, 0, 400, 400),
+        node('b', 'text', 550, 50),
+        node('epilogue', 'text', 0, 600)
+    ],
+    edges: []
+};
+
+function find(id: string): CanvasNode {
+    const found = CANVAS.nodes.find(other => other.id === id);
+    assert.ok(found);
+    return found;
+}
+
+test('next chapter follows the current card\'s chapter', () => {
+    assert.equal(getNextChapter(CANVAS, find('a'))?.id, 'two');
+    assert.equal(getNextChapter(CANVAS, find('b')), null);
+});
+
+test('a card before the first chapter leads to it; one after the last has none', () => {
+    assert.equal(getNextChapter(CANVAS, find('intro'))?.id, 'one');
+    assert.equal(getNextChapter(CANVAS, find('epilogue')), null);
+});
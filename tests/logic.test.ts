@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LogicEngine } from '../logic';
+
+test('{set:} copies built-ins and $variables when the set runs', () => {
+    const parsed = LogicEngine.parseLabel('{set:last=now.date} {set:gold+=$bonus} {set:left=daysSince( last )} Rest');
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.sets.map(set => set.source), ['now.date', 'bonus', 'daysSince(last)']);
+
+    const state = { gold: 2, bonus: 3 };
+    LogicEngine.applySets(parsed.sets.slice(1, 2), state);
+    assert.equal(state.gold, 5);
+});
+
+test('{set:} reports an unquoted word instead of skipping it', () => {
+    const label = '{set:class=mage} Pick the mage';
+    const parsed = LogicEngine.parseLabel(label);
+    assert.equal(parsed.text, 'Pick the mage');
+    assert.deepEqual(parsed.sets, []);
+    assert.equal(parsed.errors.length, 1);
+    assert.equal(parsed.errors[0].column, label.indexOf('mage') + 1);
+    assert.equal(LogicEngine.hasErrors(parsed), true);
+
+    assert.deepEqual(LogicEngine.parseLabel('{set:class="mage"}').sets, [{ variable: 'class', op: '=', value: 'mage' }]);
+});
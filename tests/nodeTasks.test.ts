@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { countTasks, setTaskChecked, setCanvasTaskChecked } from '../nodeTasks';
+
+const MIXED = [
+    '- [ ] list task',
+    '> - [ ] quoted task',
+    '> [!todo] Callout',
+    '> > - [x] nested quote task',
+    '```',
+    '- [ ] not a task (code)',
+    '```',
+    '1. [ ] numbered task'
+].join('\n');
+
+test('counts tasks in lists, blockquotes and callouts, skipping code blocks', () => {
+    assert.deepEqual(countTasks(MIXED), { total: 4, done: 1 });
+});
+
+test('toggles the task at the rendered position when lists and blockquotes are mixed', () => {
+    const lines = setTaskChecked(MIXED, 1, true).split('\n');
+    assert.equal(lines[0], '- [ ] list task');
+    assert.equal(lines[1], '> - [x] quoted task');
+
+    assert.equal(setTaskChecked(MIXED, 2, false).split('\n')[3], '> > - [ ] nested quote task');
+    assert.equal(setTaskChecked(MIXED, 3, true).split('\n')[7], '1. [x] numbered task');
+});
+
+test('patches only the card line of a canvas written by Obsidian', () => {
+    const content = [
+        '{',
+        '\t"nodes":[',
+        '\t\t{"id":"a","type":"text","text":"- [ ] one\\n- [ ] two","x":0,"y":0,"width":100,"height":100},',
+        '\t\t{"id":"b","type":"text","text":"- [ ] one\\n- [ ] two","x":0,"y":200,"width":100,"height":100}',
+        '\t],',
+        '\t"edges":[]',
+        '}'
+    ].join('\n');
+
+    const result = setCanvasTaskChecked(content, 'b', 1, true);
+    assert.ok(result);
+    assert.equal(result.text, '- [ ] one\n- [x] two');
+    assert.equal(result.content, content.replace(
+        '{"id":"b","type":"text","text":"- [ ] one\\n- [ ] two"',
+        '{"id":"b","type":"text","text":"- [ ] one\\n- [x] two"'));
+});
+
+test('keeps tab indentation when the canvas has another layout', () => {
+    const content = JSON.stringify({ nodes: [{ id: 'a', type: 'text', text: '- [ ] one', x: 0, y: 0, width: 1, height: 1 }], edges: [] }, null, '\t');
+    const result = setCanvasTaskChecked(content, 'a', 0, true);
+    assert.ok(result);
+    assert.equal(result.content, content.replace('- [ ] one', '- [x] one'));
+});
@@ -0,0 +1,171 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PlaybackEngine, PlaybackSession, getTakeableChoices } from '../playbackEngine';
+import { createSessionProgress } from '../visitTracking';
+import type { CanvasData, CanvasEdge, CanvasNode } from '../types';
+
+// Canvases are plain JSON keyed by path, as the engine runs outside Obsidian
+function card(id: string, text = id): CanvasNode {
+    return { id, type: 'text', text, x: 0, y: 0, width: 100, height: 100 };
+}
+
+function link(id: string, file: string): CanvasNode {
+    return { id, type: 'file', file, x: 0, y: 0, width: 100, height: 100 };
+}
+
+function edge(fromNode: string, toNode: string, label?: string): CanvasEdge {
+    return { id: `${fromNode}-${toNode}`, fromNode, toNode, label };
+}
+
+const CANVASES: Record<string, CanvasData> = {
+    'main.canvas': {
+        nodes: [card('start'), card('gate'), card('rich'), card('poor'), link('quest', 'quest.canvas'), card('after')],
+        edges: [
+            edge('start', 'gate', '{set:gold=5} Take the gold'),
+            edge('gate', 'rich', '{if:gold>=10} Buy the castle'),
+            edge('gate', 'poor', '{once} Beg'),
+            edge('gate', 'quest', '{pass:gold} {return:reward} Go on a quest'),
+            edge('quest', 'after')
+        ]
+    },
+    'quest.canvas': {
+        nodes: [card('q1'), card('q2')],
+        edges: [edge('q1', 'q2', '{auto} {set:reward=3} {set:global.fame+=1}')]
+    }
+};
+
+function createEngine(): PlaybackEngine<string> {
+    return new PlaybackEngine<string>({
+        resolveCanvas: link => link in CANVASES ? link : null,
+        loadCanvas: async path => CANVASES[path],
+        getPath: path => path
+    }, {
+        getStartNode: data => data.nodes[0]
+    });
+}
+
+function createSession(): PlaybackSession<string> {
+    const data = CANVASES['main.canvas'];
+    return {
+        currentCanvasFile: 'main.canvas',
+        currentCanvasData: data,
+        currentNode: data.nodes[0],
+        state: {},
+        stack: [],
+        history: [],
+        future: [],
+        progress: createSessionProgress(),
+        step: 0,
+        stepCount: 0
+    };
+}
+
+function take(engine: PlaybackEngine<string>, session: PlaybackSession<string>, text: string) {
+    const choice = engine.getAvailableChoices(session).find(c => c.parsed.text === text);
+    assert.ok(choice && choice.nextNode, `no choice "${text}"`);
+    engine.recordHistory(session);
+    engine.applyEdge(session, choice.edge, choice.parsed);
+    return engine.advance(session, choice.nextNode);
+}
+
+test('offers the choices whose conditions pass and applies their sets', () => {
+    const engine = createEngine();
+    const session = createSession();
+
+    take(engine, session, 'Take the gold');
+    assert.equal(session.currentNode.id, 'gate');
+    assert.deepEqual(session.state, { gold: 5 });
+    assert.equal(session.progress.turns, 1);
+    assert.deepEqual(engine.getAvailableChoices(session).map(c => c.parsed.text), ['Beg', 'Go on a quest']);
+});
+
+test('hides {once} edges after they were taken', () => {
+    const engine = createEngine();
+    const session = createSession();
+    take(engine, session, 'Take the gold');
+    take(engine, session, 'Beg');
+
+    session.currentNode = CANVASES['main.canvas'].nodes[1];
+    assert.deepEqual(engine.getAvailableChoices(session).map(c => c.parsed.text), ['Go on a quest']);
+});
+
+test('shows choices with broken conditions but never offers them to take', () => {
+    const engine = createEngine();
+    const session = createSession();
+    session.currentCanvasData = {
+        nodes: [card('start'), card('a'), card('b')],
+        edges: [edge('start', 'a', '{if:hasKey&&} Open the door'), edge('start', 'b', 'Walk away')]
+    };
+
+    const available = engine.getAvailableChoices(session);
+    assert.deepEqual(available.map(c => c.parsed.text), ['Open the door', 'Walk away']);
+    assert.deepEqual(getTakeableChoices(available).map(c => c.parsed.text), ['Walk away']);
+});
+
+test('enters a nested canvas with {pass:} and brings back {return:} and shared variables', async () => {
+    const engine = createEngine();
+    const session = createSession();
+    take(engine, session, 'Take the gold');
+    session.state['unrelated'] = true;
+
+    const choice = engine.getAvailableChoices(session).find(c => c.parsed.text === 'Go on a quest');
+    assert.ok(choice && choice.nextNode);
+    assert.equal(take(engine, session, 'Go on a quest'), 'canvas');
+    assert.equal(await engine.enterCanvas(session, choice.nextNode, choice.parsed), 'entered');
+    assert.equal(session.currentCanvasFile, 'quest.canvas');
+    assert.deepEqual(session.state, { gold: 5 });
+
+    const auto = engine.findAutoChoice(session);
+    assert.ok(auto);
+    engine.applyEdge(session, auto.edge, auto.parsed);
+    engine.advance(session, auto.nextNode);
+    assert.equal(engine.getPathEnd(session), 'return');
+
+    const frame = engine.returnToParent(session);
+    assert.ok(frame);
+    assert.equal(session.currentNode.id, 'quest');
+    assert.deepEqual(session.state, { gold: 5, unrelated: true, reward: 3, 'global.fame': 1 });
+    assert.equal(engine.findReturnChoice(session, null)?.nextNode?.id, 'after');
+    assert.equal(engine.getPathEnd(session), 'end');
+});
+
+test('Back and Forward restore the step, its state and its number', () => {
+    const engine = createEngine();
+    const session = createSession();
+    take(engine, session, 'Take the gold');
+    take(engine, session, 'Beg');
+    assert.equal(session.step, 2);
+
+    assert.ok(engine.goBack(session));
+    assert.equal(session.currentNode.id, 'gate');
+    assert.deepEqual(session.state, { gold: 5 });
+    assert.equal(session.step, 1);
+    assert.equal(engine.getAvailableChoices(session).some(c => c.parsed.text === 'Beg'), true);
+
+    assert.ok(engine.goForward(session));
+    assert.equal(session.currentNode.id, 'poor');
+    assert.equal(session.step, 2);
+
+    // A new step after Back never reuses a number
+    engine.goBack(session);
+    take(engine, session, 'Go on a quest');
+    assert.equal(session.step, 3);
+    assert.deepEqual(session.future, []);
+});
+
+test('Back removes shared variables first created in the undone step', () => {
+    const engine = createEngine();
+    const session = createSession();
+    session.state = { 'vault.known': 1 };
+    session.currentCanvasData = {
+        nodes: [card('start'), card('met')],
+        edges: [edge('start', 'met', '{set:vault.metMentor=true} {set:global.xp+=5} {set:vault.known=2} Meet the mentor')]
+    };
+
+    take(engine, session, 'Meet the mentor');
+    assert.deepEqual(engine.getSharedVariablesCreatedSinceBack(session).sort(), ['global.xp', 'vault.metMentor']);
+
+    engine.goBack(session);
+    assert.deepEqual(session.state, { 'vault.known': 1 });
+    assert.deepEqual(engine.getSharedVariablesCreatedSinceBack(session), []);
+});
@@ -0,0 +1,30 @@
+import esbuild from "esbuild";
+import process from "process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawnSync } from "child_process";
+
+// Bundle each tests/*.test.ts (plain TypeScript, no Obsidian imports) and run it with node's test runner
+const testDir = path.dirname(new URL(import.meta.url).pathname);
+const entryPoints = fs.readdirSync(testDir)
+	.filter(name => name.endsWith(".test.ts"))
+	.map(name => path.join(testDir, name));
+const outdir = fs.mkdtempSync(path.join(os.tmpdir(), "canvas-player-tests-"));
+
+try {
+	await esbuild.build({
+		entryPoints,
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node16",
+		outdir,
+		logLevel: "warning",
+	});
+	const outputs = fs.readdirSync(outdir).map(name => path.join(outdir, name));
+	const result = spawnSync(process.execPath, ["--test", ...outputs], { stdio: "inherit" });
+	process.exitCode = result.status ?? 1;
+} finally {
+	fs.rmSync(outdir, { recursive: true, force: true });
+}
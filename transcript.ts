@@ -0,0 +1,202 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import type { GameState, GameValue } from './logic';
+import type { CanvasNode } from './types';
+import { formatDate } from './calendar';
+
+/**
+ * One visited node in a run, recorded for the transcript note.
+ */
+export interface TranscriptStep {
+    canvasPath: string;
+    nodeId: string;
+    /** File name or first line of the node */
+    title: string;
+    /** Label of the choice taken to leave the node; null while the reader is still on it */
+    choice: string | null;
+    enteredAtMs: number;
+    /** Time spent on the node (timer time when timeboxing, wall-clock time otherwise) */
+    timeSpentMs: number | null;
+    points: number;
+    /** Variables changed by the node's actions and the choice taken */
+    changes: VariableChange[];
+}
+
+export interface VariableChange {
+    name: string;
+    before: GameValue | null;
+    after: GameValue | null;
+}
+
+/**
+ * How the run ended: the reader reached the end of the path, stopped early,
+ * or saved the transcript while still playing.
+ */
+export type TranscriptOutcome = 'finished' | 'stopped' | 'in-progress';
+
+const OUTCOME_LABELS: Record<TranscriptOutcome, string> = {
+    'finished': 'Reached the end',
+    'stopped': 'Stopped',
+    'in-progress': 'In progress'
+};
+
+export const DEFAULT_TRANSCRIPT_TEMPLATE = `# {{canvas}}
+
+- Date: {{date}} {{time}}
+- Outcome: {{outcome}}
+- Total time: {{totalTime}}
+- Points: {{points}}
+
+## Steps
+
+{{steps}}
+`;
+
+export function createTranscriptStep(canvasPath: string, node: CanvasNode, nowMs: number): TranscriptStep {
+    return {
+        canvasPath,
+        nodeId: node.id,
+        title: getNodeTitle(node),
+        choice: null,
+        enteredAtMs: nowMs,
+        timeSpentMs: null,
+        points: 0,
+        changes: []
+    };
+}
+
+/**
+ * Title of a node for the transcript: the linked file name, or the first non-empty line of the text.
+ */
+export function getNodeTitle(node: CanvasNode): string {
+    if (node.type === 'file' && node.file) {
+        return (node.file.split('/').pop() ?? node.file).replace(/\.(md|canvas)$/, '');
+    }
+    if (node.type === 'text' && node.text) {
+        const firstLine = node.text.split('\n').map(line => line.trim()).find(line => line.length > 0) ?? '';
+        // Drop heading marks and directive tags such as {timeout:30s}
+        return firstLine.replace(/^#+\s*/, '').replace(/\{[a-z-]+(?::[^}]*)?\}/g, '').trim() || node.id;
+    }
+    return node.label ?? node.id;
+}
+
+/**
+ * Add the differences between two states to a step.
+ * A variable changed several times keeps its first "before" and its last "after" value.
+ */
+export function recordChanges(step: TranscriptStep, before: GameState, after: GameState): void {
+    const names = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const name of names) {
+        if (formatValue(before[name] ?? null) === formatValue(after[name] ?? null)) continue;
+        const existing = step.changes.find(change => change.name === name);
+        if (existing) {
+            existing.after = after[name] ?? null;
+        } else {
+            step.changes.push({ name, before: before[name] ?? null, after: after[name] ?? null });
+        }
+    }
+    // Changes that were undone later in the same step are not worth listing
+    step.changes = step.changes.filter(change => formatValue(change.before) !== formatValue(change.after));
+}
+
+/**
+ * Copies transcript steps loaded from JSON, dropping malformed entries.
+ */
+export function sanitizeTranscript(raw: unknown): TranscriptStep[] {
+    if (!Array.isArray(raw)) return [];
+    return raw.filter((step): step is TranscriptStep =>
+        !!step && typeof step === 'object' &&
+        typeof step.canvasPath === 'string' &&
+        typeof step.nodeId === 'string' &&
+        typeof step.title === 'string' &&
+        typeof step.enteredAtMs === 'number' &&
+        Array.isArray(step.changes)
+    ).map(step => ({
+        canvasPath: step.canvasPath,
+        nodeId: step.nodeId,
+        title: step.title,
+        choice: typeof step.choice === 'string' ? step.choice : null,
+        enteredAtMs: step.enteredAtMs,
+        timeSpentMs: typeof step.timeSpentMs === 'number' ? step.timeSpentMs : null,
+        points: typeof step.points === 'number' ? step.points : 0,
+        changes: step.changes.map(change => ({ ...change }))
+    }));
+}
+
+/**
+ * Fill the transcript template. Supported placeholders:
+ * {{canvas}}, {{date}}, {{time}}, {{outcome}}, {{totalTime}}, {{points}} and {{steps}}.
+ */
+export function renderTranscript(template: string, canvasName: string, steps: TranscriptStep[], outcome: TranscriptOutcome, endedAt: Date): string {
+    const totalMs = steps.reduce((sum, step) => sum + (step.timeSpentMs ?? 0), 0);
+    const points = steps.reduce((sum, step) => sum + step.points, 0);
+    const values: Record<string, string> = {
+        canvas: canvasName,
+        date: formatDate(endedAt),
+        time: formatClockTime(endedAt),
+        outcome: OUTCOME_LABELS[outcome],
+        totalTime: formatDuration(totalMs),
+        points: String(points),
+        steps: formatSteps(steps)
+    };
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * File name for a transcript note, e.g. "Story 2026-10-19 18-05".
+ */
+export function getTranscriptNoteName(canvasName: string, endedAt: Date): string {
+    return `${canvasName} ${formatDate(endedAt)} ${formatClockTime(endedAt).replace(':', '-')}`;
+}
+
+/**
+ * Write a transcript note into the folder (created when missing), without overwriting earlier transcripts.
+ */
+export async function saveTranscriptNote(app: App, folder: string, baseName: string, content: string): Promise<TFile> {
+    const folderPath = folder.trim() ? normalizePath(folder.trim()) : '';
+    if (folderPath && !app.vault.getAbstractFileByPath(folderPath)) {
+        await app.vault.createFolder(folderPath);
+    }
+
+    const safeName = baseName.replace(/[\\/:*?"<>|#^[\]]/g, '-');
+    const prefix = folderPath ? `${folderPath}/` : '';
+    let path = normalizePath(`${prefix}${safeName}.md`);
+    for (let n = 2; app.vault.getAbstractFileByPath(path); n++) {
+        path = normalizePath(`${prefix}${safeName} ${n}.md`);
+    }
+    return await app.vault.create(path, content);
+}
+
+function formatSteps(steps: TranscriptStep[]): string {
+    return steps.map((step, index) => {
+        const details: string[] = [];
+        if (step.timeSpentMs !== null) details.push(formatDuration(step.timeSpentMs));
+        if (step.points > 0) details.push(`+${step.points} points`);
+
+        let line = `${index + 1}. **${step.title}**`;
+        if (step.choice !== null) line += ` → ${step.choice}`;
+        if (details.length > 0) line += ` (${details.join(', ')})`;
+
+        const changeLines = step.changes.map(change =>
+            `    - \`${change.name}\`: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+        return [line, ...changeLines].join('\n');
+    }).join('\n');
+}
+
+function formatValue(value: GameValue | null): string {
+    if (value === null) return 'unset';
+    if (Array.isArray(value)) return `[${value.join(', ')}]`;
+    return typeof value === 'string' ? `"${value}"` : String(value);
+}
+
+function formatDuration(ms: number): string {
+    const totalSeconds = Math.round(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+function formatClockTime(date: Date): string {
+    return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
@@ -1,5 +1,5 @@
-import { TFile } from 'obsidian';
-import type { GameState } from './logic';
+import type { TFile } from 'obsidian';
+import type { GameState, VariableMapping } from './logic';
 
 export type { GameState } from './logic';
 
@@ -32,4 +32,6 @@ export interface StackFrame {
     data: CanvasData;
     currentNode: CanvasNode;
     state: GameState; 
+    pass: VariableMapping[]; // Variables sent into the nested canvas ({pass:})
+    returns: VariableMapping[]; // Variables copied back from the nested canvas on return ({return:})
 }
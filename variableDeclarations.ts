@@ -0,0 +1,138 @@
+import { App, TFile, parseYaml } from 'obsidian';
+import { GameState, GameValue, LogicEngine, VariableType } from './logic';
+import type { CanvasData, CanvasNode } from './types';
+
+/**
+ * First line of a text card that declares the canvas's variables.
+ * The same block can live under this key in the frontmatter of a companion note
+ * (a markdown file next to the canvas with the same name).
+ */
+export const CANVAS_VARS_MARKER = 'canvas-vars';
+
+/**
+ * A variable declared by the canvas author.
+ */
+export interface VariableDeclaration {
+    name: string;
+    type: VariableType;
+    default: GameValue;
+    /** Shown under the variable name in the prompt */
+    description: string;
+    /** Ask the reader for a value instead of silently using the default */
+    prompt: boolean;
+    /** Allowed values for string variables (shown as a dropdown) and items offered for list variables */
+    values: string[];
+}
+
+/**
+ * Check whether a node is the canvas-vars declaration card.
+ */
+export function isVariableDeclarationCard(node: CanvasNode): boolean {
+    if (node.type !== 'text' || typeof node.text !== 'string') return false;
+    const firstLine = node.text.trim().split('\n')[0] ?? '';
+    return firstLine.trim().toLowerCase() === CANVAS_VARS_MARKER;
+}
+
+/**
+ * Parse declarations from a YAML-like object.
+ * Each entry is either a plain default value (`gold: 10`) or an object with
+ * type, default, description, prompt and values keys.
+ */
+export function parseVariableDeclarations(raw: unknown): VariableDeclaration[] {
+    const declarations: VariableDeclaration[] = [];
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return declarations;
+
+    for (const [name, entry] of Object.entries(raw as Record<string, unknown>)) {
+        if (!/^[a-zA-Z0-9_]+(?:\.[a-zA-Z0-9_]+)?$/.test(name)) continue;
+
+        const spec: Record<string, unknown> = entry && typeof entry === 'object' && !Array.isArray(entry)
+            ? entry as Record<string, unknown>
+            : { default: entry };
+
+        const values = Array.isArray(spec.values) ? spec.values.map(v => String(v)) : [];
+        const type = toVariableType(spec.type) ?? inferType(spec.default, values);
+        const fallback = type === 'string' && values.length > 0 ? values[0] : LogicEngine.defaultValueFor(type);
+
+        declarations.push({
+            name,
+            type,
+            default: spec.default === undefined || spec.default === null ? fallback : coerceValue(spec.default, type),
+            description: typeof spec.description === 'string' ? spec.description : '',
+            prompt: spec.prompt === true,
+            values
+        });
+    }
+    return declarations;
+}
+
+/**
+ * Collect declarations for a canvas from its canvas-vars card and companion note frontmatter.
+ * The card wins when both declare the same variable.
+ */
+export function getVariableDeclarations(app: App, canvasFile: TFile, data: CanvasData): Map<string, VariableDeclaration> {
+    const declarations = new Map<string, VariableDeclaration>();
+
+    const companionPath = canvasFile.path.replace(/\.canvas$/, '.md');
+    const companion = app.vault.getAbstractFileByPath(companionPath);
+    if (companion instanceof TFile) {
+        const frontmatter = app.metadataCache.getFileCache(companion)?.frontmatter;
+        for (const declaration of parseVariableDeclarations(frontmatter?.[CANVAS_VARS_MARKER])) {
+            declarations.set(declaration.name, declaration);
+        }
+    }
+
+    const card = data.nodes.find(isVariableDeclarationCard);
+    if (card?.text) {
+        // Drop the marker line and any code fence around the YAML
+        const body = card.text.trim().split('\n').slice(1)
+            .filter(line => !line.trim().startsWith('```'))
+            .join('\n');
+        try {
+            for (const declaration of parseVariableDeclarations(parseYaml(body))) {
+                declarations.set(declaration.name, declaration);
+            }
+        } catch (e) {
+            console.error('Canvas Player: invalid canvas-vars card', e);
+        }
+    }
+
+    return declarations;
+}
+
+/**
+ * Seed declared defaults into state for variables that are not set yet.
+ * Variables declared with `prompt: true` are left unset so the reader is asked for them.
+ */
+export function seedDeclaredVariables(state: GameState, declarations: Map<string, VariableDeclaration>): void {
+    for (const declaration of declarations.values()) {
+        if (declaration.prompt || state[declaration.name] !== undefined) continue;
+        state[declaration.name] = declaration.default;
+    }
+}
+
+function toVariableType(raw: unknown): VariableType | null {
+    if (raw === 'boolean' || raw === 'number' || raw === 'string' || raw === 'list') return raw;
+    if (raw === 'bool') return 'boolean';
+    if (raw === 'text') return 'string';
+    return null;
+}
+
+function inferType(value: unknown, values: string[]): VariableType {
+    if (typeof value === 'number') return 'number';
+    if (Array.isArray(value)) return 'list';
+    if (typeof value === 'string' || values.length > 0) return 'string';
+    return 'boolean';
+}
+
+function coerceValue(value: unknown, type: VariableType): GameValue {
+    if (type === 'number') {
+        const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+        return isNaN(parsed) ? 0 : parsed;
+    }
+    if (type === 'string') return String(value);
+    if (type === 'list') {
+        const items = Array.isArray(value) ? value : [value];
+        return Array.from(new Set(items.filter(item => item !== null && item !== undefined && item !== '').map(item => String(item))));
+    }
+    return value === true || value === 'true';
+}
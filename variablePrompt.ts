@@ -0,0 +1,151 @@
+import { Setting } from 'obsidian';
+import { BuiltinResolver, GameState, LogicEngine, ParsedLabel, VariableType } from './logic';
+import type { VariableDeclaration } from './variableDeclarations';
+
+/**
+ * Collect variables referenced by the given choices that are not yet set,
+ * along with the input type to prompt for.
+ * A variable is numeric or string-valued if any choice compares it that way.
+ * Built-in names (e.g. visits.nodeId) are skipped.
+ * Variables declared with `prompt: true` are included while unset, even when no choice references them
+ * (they may only be used in {{interpolation}} or a {set:}), so the reader is asked for them when the canvas starts.
+ */
+export function collectMissingVariables(
+    parsedLabels: ParsedLabel[],
+    state: GameState,
+    builtins?: BuiltinResolver,
+    declarations?: Map<string, VariableDeclaration>
+): Map<string, VariableType> {
+    const missing = new Map<string, VariableType>();
+    for (const declaration of declarations?.values() ?? []) {
+        if (declaration.prompt && state[declaration.name] === undefined) {
+            missing.set(declaration.name, declaration.type);
+        }
+    }
+    for (const parsed of parsedLabels) {
+        for (const variable of LogicEngine.getMissingVariables(parsed, state, builtins)) {
+            const type = parsed.dependencyTypes[variable] ?? 'boolean';
+            const current = missing.get(variable);
+            if (current === undefined || current === 'boolean') {
+                missing.set(variable, type);
+            }
+        }
+    }
+    return missing;
+}
+
+/**
+ * Collect the string values a canvas uses for each variable, from every {set:} and {if:} in its edge labels.
+ * These are the values the canvas can act on, so they become the options of the prompt dropdown.
+ * @param parsedLabels Parsed labels of all edges in the canvas
+ */
+export function collectCanvasStringValues(parsedLabels: ParsedLabel[]): Record<string, string[]> {
+    const values: Record<string, string[]> = {};
+    for (const parsed of parsedLabels) {
+        for (const [variable, labelValues] of Object.entries(parsed.stringValues)) {
+            const known = values[variable] ?? (values[variable] = []);
+            for (const value of labelValues) {
+                if (!known.includes(value)) known.push(value);
+            }
+        }
+    }
+    return values;
+}
+
+/**
+ * Render a setting row for a missing variable and seed its default value in state.
+ * Booleans get a toggle and numbers a number input. Strings get a dropdown when
+ * the canvas uses at least two known values, otherwise a free text field.
+ * Lists get a checkbox per known item, or a comma-separated text field when no items are known.
+ * A canvas-vars declaration overrides the inferred type and supplies the default,
+ * allowed values and a description.
+ */
+export function addVariablePromptSetting(
+    containerEl: HTMLElement,
+    variable: string,
+    inferredType: VariableType,
+    state: GameState,
+    knownOptions: string[] = [],
+    declaration?: VariableDeclaration
+): Setting {
+    const type = declaration?.type ?? inferredType;
+    const options = [...(declaration?.values ?? [])];
+    for (const option of knownOptions) {
+        if (!options.includes(option)) options.push(option);
+    }
+
+    if (state[variable] === undefined) {
+        if (declaration) {
+            state[variable] = declaration.default;
+        } else {
+            state[variable] = type === 'string' && options.length >= 2
+                ? options[0]
+                : LogicEngine.defaultValueFor(type);
+        }
+    }
+
+    const setting = new Setting(containerEl).setName(variable);
+    if (declaration?.description) {
+        setting.setDesc(declaration.description);
+    }
+
+    if (type === 'number') {
+        setting.addText(text => {
+            text.inputEl.type = 'number';
+            text
+                .setValue(String(state[variable]))
+                .onChange(val => {
+                    const parsed = parseFloat(val);
+                    state[variable] = isNaN(parsed) ? 0 : parsed;
+                });
+        });
+    } else if (type === 'list' && options.length > 0) {
+        const selected = Array.isArray(state[variable]) ? state[variable] as string[] : [];
+        for (const option of selected) {
+            if (!options.includes(option)) options.push(option);
+        }
+        const optionsEl = setting.controlEl.createDiv({ cls: 'canvas-player-multiselect' });
+        options.forEach(option => {
+            const optionEl = optionsEl.createEl('label', { cls: 'canvas-player-multiselect-option' });
+            const checkbox = optionEl.createEl('input', { type: 'checkbox' });
+            checkbox.checked = selected.includes(option);
+            optionEl.appendText(option);
+            checkbox.addEventListener('change', () => {
+                // Keep the canvas's item order regardless of click order
+                const current = Array.isArray(state[variable]) ? state[variable] as string[] : [];
+                const next = checkbox.checked ? [...current, option] : current.filter(item => item !== option);
+                state[variable] = options.filter(item => next.includes(item));
+            });
+        });
+    } else if (type === 'list') {
+        setting.addText(text => text
+            .setPlaceholder('item, item')
+            .setValue(Array.isArray(state[variable]) ? (state[variable] as string[]).join(', ') : '')
+            .onChange(val => {
+                state[variable] = Array.from(new Set(val.split(',').map(item => item.trim()).filter(item => item)));
+            }));
+    } else if (type === 'string' && options.length >= 2) {
+        setting.addDropdown(dropdown => {
+            options.forEach(option => dropdown.addOption(option, option));
+            dropdown
+                .setValue(String(state[variable]))
+                .onChange(val => {
+                    state[variable] = val;
+                });
+        });
+    } else if (type === 'string') {
+        setting.addText(text => text
+            .setValue(String(state[variable]))
+            .onChange(val => {
+                state[variable] = val;
+            }));
+    } else {
+        setting.addToggle(toggle => toggle
+            .setValue(!!state[variable])
+            .onChange(val => {
+                state[variable] = val;
+            }));
+    }
+
+    return setting;
+}
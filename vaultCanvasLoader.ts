@@ -0,0 +1,18 @@
+import { App, TFile } from 'obsidian';
+import type { CanvasData } from './types';
+import type { CanvasLoader } from './playbackEngine';
+
+/**
+ * Loads canvases from the vault for the playback engine.
+ * Links resolve like Obsidian links, relative to the canvas they appear in.
+ */
+export function createVaultCanvasLoader(app: App): CanvasLoader<TFile> {
+    return {
+        resolveCanvas: (link, from) => {
+            const file = app.metadataCache.getFirstLinkpathDest(link, from.path);
+            return file instanceof TFile && file.extension === 'canvas' ? file : null;
+        },
+        loadCanvas: async (file): Promise<CanvasData> => JSON.parse(await app.vault.read(file)),
+        getPath: file => file.path
+    };
+}
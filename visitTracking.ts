@@ -0,0 +1,106 @@
+import type { BuiltinResolver, GameValue } from './logic';
+
+/**
+ * Per-session visit counters, exposed to conditions as read-only built-ins:
+ * - visited.<nodeId>: whether the node was entered in the current canvas
+ * - visits.<nodeId>: how many times the node was entered in the current canvas
+ * - turns: how many choices have been taken in the session
+ */
+export interface SessionProgress {
+    /** Visit counts keyed by canvas path, then node id */
+    visits: Record<string, Record<string, number>>;
+    /** Number of choices taken so far */
+    turns: number;
+    /** Ids of {once} edges already taken, keyed by canvas path */
+    onceEdges: Record<string, string[]>;
+}
+
+export function createSessionProgress(): SessionProgress {
+    return { visits: {}, turns: 0, onceEdges: {} };
+}
+
+export function cloneSessionProgress(progress: SessionProgress): SessionProgress {
+    const visits: Record<string, Record<string, number>> = {};
+    for (const [path, counts] of Object.entries(progress.visits)) {
+        visits[path] = { ...counts };
+    }
+    const onceEdges: Record<string, string[]> = {};
+    for (const [path, edgeIds] of Object.entries(progress.onceEdges)) {
+        onceEdges[path] = [...edgeIds];
+    }
+    return { visits, turns: progress.turns, onceEdges };
+}
+
+/**
+ * Copies progress loaded from JSON, dropping malformed entries.
+ * Older session files have no progress at all and start from zero.
+ */
+export function sanitizeSessionProgress(raw: unknown): SessionProgress {
+    const progress = createSessionProgress();
+    if (!raw || typeof raw !== 'object') return progress;
+    const data = raw as Record<string, unknown>;
+
+    if (data.visits && typeof data.visits === 'object') {
+        for (const [path, counts] of Object.entries(data.visits as Record<string, unknown>)) {
+            if (!counts || typeof counts !== 'object') continue;
+            const clean: Record<string, number> = {};
+            for (const [nodeId, count] of Object.entries(counts as Record<string, unknown>)) {
+                if (typeof count === 'number' && isFinite(count) && count > 0) {
+                    clean[nodeId] = Math.floor(count);
+                }
+            }
+            progress.visits[path] = clean;
+        }
+    }
+
+    if (typeof data.turns === 'number' && isFinite(data.turns) && data.turns > 0) {
+        progress.turns = Math.floor(data.turns);
+    }
+
+    if (data.onceEdges && typeof data.onceEdges === 'object') {
+        for (const [path, edgeIds] of Object.entries(data.onceEdges as Record<string, unknown>)) {
+            if (Array.isArray(edgeIds)) {
+                progress.onceEdges[path] = edgeIds.filter((id): id is string => typeof id === 'string');
+            }
+        }
+    }
+
+    return progress;
+}
+
+/**
+ * Count one entry into a node.
+ */
+export function recordVisit(progress: SessionProgress, canvasPath: string, nodeId: string): void {
+    const counts = progress.visits[canvasPath] ?? (progress.visits[canvasPath] = {});
+    counts[nodeId] = (counts[nodeId] ?? 0) + 1;
+}
+
+/**
+ * Remember that a {once} edge was taken so it is hidden from then on.
+ */
+export function markOnceEdgeTaken(progress: SessionProgress, canvasPath: string, edgeId: string): void {
+    const taken = progress.onceEdges[canvasPath] ?? (progress.onceEdges[canvasPath] = []);
+    if (!taken.includes(edgeId)) taken.push(edgeId);
+}
+
+export function isOnceEdgeTaken(progress: SessionProgress, canvasPath: string, edgeId: string): boolean {
+    return progress.onceEdges[canvasPath]?.includes(edgeId) ?? false;
+}
+
+/**
+ * Resolve visited.*, visits.* and turns for conditions evaluated in the given canvas.
+ * Unvisited nodes read as false / 0.
+ */
+export function createProgressResolver(progress: SessionProgress, canvasPath: string): BuiltinResolver {
+    return {
+        handles: name => name === 'turns' || name.startsWith('visits.') || name.startsWith('visited.'),
+        resolve: (name): GameValue | undefined => {
+            if (name === 'turns') return progress.turns;
+            const counts = progress.visits[canvasPath] ?? {};
+            if (name.startsWith('visits.')) return counts[name.slice('visits.'.length)] ?? 0;
+            if (name.startsWith('visited.')) return (counts[name.slice('visited.'.length)] ?? 0) > 0;
+            return undefined;
+        }
+    };
+}